@@ -0,0 +1,145 @@
+/**
+ * Compares the conflict-matrix schedule generator against the original
+ * pairwise search on a synthetic catalog.
+ * Run with `yarn bench`.
+ */
+import type { CourseMeeting, CourseSection } from '../utilities/csvParser';
+import { generateNonConflictingSchedules } from '../utilities/scheduleGenerator';
+import { computeScheduleMetrics, scoreSchedule } from '../utilities/scheduleScoring';
+import { defaultFilters, defaultScoringWeights } from '../types/filters';
+import { minutesToTime, WEEKDAYS } from '../utilities/timeUtils';
+
+interface CatalogFixture {
+    courses: number;
+    sectionsPerCourse: number;
+    seed: number;
+}
+
+// Busy catalogs with many sections per course, where most branches end in a conflict
+const fixtures: CatalogFixture[] = [
+    { courses: 5, sectionsPerCourse: 12, seed: 1 },
+    { courses: 8, sectionsPerCourse: 15, seed: 3 }
+];
+
+// Small deterministic PRNG so every run uses the same catalog
+const createRandom = (seed: number) => {
+    let state = seed;
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const createSyntheticCatalog = ({ courses, sectionsPerCourse, seed }: CatalogFixture): CourseSection[] => {
+    const random = createRandom(seed);
+    const pick = <T,>(values: readonly T[]): T => values[Math.floor(random() * values.length)];
+    // Fisher-Yates, so every order is equally likely
+    const shuffle = <T,>(values: readonly T[]): T[] => {
+        const shuffled = [...values];
+        for (let i = shuffled.length - 1; i > 0; i--) {
+            const j = Math.floor(random() * (i + 1));
+            [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+        }
+        return shuffled;
+    };
+    const sections: CourseSection[] = [];
+
+    for (let course = 0; course < courses; course++) {
+        for (let section = 0; section < sectionsPerCourse; section++) {
+            const meetingCount = 2 + Math.floor(random() * 2);
+            const days = shuffle(WEEKDAYS).slice(0, meetingCount);
+            const start = (8 + Math.floor(random() * 11)) * 60;
+            const duration = pick([80, 110, 170]);
+
+            const meetings: CourseMeeting[] = days.map(day => ({
+                day,
+                time: { startTime: minutesToTime(start), endTime: minutesToTime(start + duration) },
+                type: random() < 0.3 ? 'Online' : 'In-person'
+            }));
+
+            sections.push({
+                courseName: `Course ${course}`,
+                subject: 'BNCH',
+                courseCode: String(100 + course),
+                crn: String(10000 + course * 100 + section),
+                meetings
+            });
+        }
+    }
+
+    return sections;
+};
+
+// The original search: re-parses "HH:MM" strings and compares every chosen section
+const legacyHasTimeConflict = (section1: CourseSection, section2: CourseSection): boolean => {
+    for (const meeting1 of section1.meetings) {
+        for (const meeting2 of section2.meetings) {
+            if (meeting1.day !== meeting2.day) continue;
+            const [start1Hour, start1Min] = meeting1.time.startTime.split(':').map(Number);
+            const [end1Hour, end1Min] = meeting1.time.endTime.split(':').map(Number);
+            const [start2Hour, start2Min] = meeting2.time.startTime.split(':').map(Number);
+            const [end2Hour, end2Min] = meeting2.time.endTime.split(':').map(Number);
+            if (Math.max(start1Hour * 60 + start1Min, start2Hour * 60 + start2Min) <
+                Math.min(end1Hour * 60 + end1Min, end2Hour * 60 + end2Min)) {
+                return true;
+            }
+        }
+    }
+    return false;
+};
+
+const legacyGenerate = (sections: CourseSection[]): number => {
+    const sectionsByCourse = new Map<string, CourseSection[]>();
+    sections.forEach(section => {
+        const courseId = `${section.subject}${section.courseCode}`;
+        if (!sectionsByCourse.has(courseId)) sectionsByCourse.set(courseId, []);
+        sectionsByCourse.get(courseId)?.push(section);
+    });
+    const courseIds = Array.from(sectionsByCourse.keys());
+    let count = 0;
+
+    const build = (current: CourseSection[], courseIndex: number) => {
+        if (courseIndex === courseIds.length) {
+            scoreSchedule(computeScheduleMetrics(current), defaultScoringWeights);
+            count++;
+            return;
+        }
+        let addedSection = false;
+        for (const section of sectionsByCourse.get(courseIds[courseIndex]) || []) {
+            if (!current.some(existing => legacyHasTimeConflict(section, existing))) {
+                current.push(section);
+                build(current, courseIndex + 1);
+                current.pop();
+                addedSection = true;
+            }
+        }
+        if (!addedSection) build(current, courseIndex + 1);
+    };
+
+    build([], 0);
+    return count;
+};
+
+const time = <T,>(run: () => T): { result: T; ms: number } => {
+    const start = performance.now();
+    const result = run();
+    return { result, ms: performance.now() - start };
+};
+
+fixtures.forEach(fixture => {
+    const catalog = createSyntheticCatalog(fixture);
+    const courseIds = new Set(catalog.map(section => `${section.subject}${section.courseCode}`));
+
+    const legacy = time(() => legacyGenerate(catalog));
+    const current = time(() => generateNonConflictingSchedules(catalog, courseIds, defaultFilters));
+
+    const label = `${fixture.courses} courses x ${fixture.sectionsPerCourse} sections`;
+    const matches = legacy.result === current.result.combinations.length ? 'match' : 'MISMATCH';
+    console.log(
+        `${label}: ${current.result.combinations.length} combinations (${matches}) | ` +
+        `legacy ${legacy.ms.toFixed(1)} ms | matrix ${current.ms.toFixed(1)} ms | ` +
+        `${(legacy.ms / current.ms).toFixed(1)}x faster`
+    );
+});
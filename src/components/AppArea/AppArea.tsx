@@ -2,9 +2,11 @@ import {useMantineColorScheme, Paper, Container, Tabs, ActionIcon, Badge} from "
 import { CSSProperties, useState } from "react";
 import ConfigView from "../ConfigView/ConfigView";
 import CalendarView from "../CalendarView/CalendarView";
+import { ScheduleOverview } from "../Overview/ScheduleOverview";
 import { IconMoon, IconSun } from "@tabler/icons-react";
 import { ScheduleProvider } from "../../context/scheduleContext";
 import { FilterProvider } from "../../context/filterContext";
+import { ConstraintsProvider } from "../../context/constraintsContext";
 // import {Notifications} from "@mantine/notifications";
 
 const containerStyle: CSSProperties = {
@@ -32,45 +34,51 @@ function AppArea() {
     return (
         <ScheduleProvider>
             <FilterProvider>
-                <Container style={containerStyle} fluid bg={colorScheme === "light" ? "#d8dee9" : "#2e3440"}>
-                    <Badge variant="transparent"></Badge>
-                    <div style={paperWrapperStyle}>
-                        <Paper
-                            shadow="xl"
-                            p="xl"
-                            w="110rem"
-                            h="55rem"
-                            radius="lg"
-                            c={colorScheme === "dark" ? "#d8dee9" : "#4c566a"}
-                            bg={colorScheme === "light" ? "#e5e9f0" : "#3b4252"}
-                        >
-                            <ActionIcon
-                                onClick={() => toggleColorScheme()}
-                                color={colorScheme === "light" ? "#5e81ac" : "#ebcb8b"}
-                                variant="subtle"
-                                radius="xl"
-                                size={36}
-                                style={themeToggleStyle}
+                <ConstraintsProvider>
+                    <Container style={containerStyle} fluid bg={colorScheme === "light" ? "#d8dee9" : "#2e3440"}>
+                        <Badge variant="transparent"></Badge>
+                        <div style={paperWrapperStyle}>
+                            <Paper
+                                shadow="xl"
+                                p="xl"
+                                w="110rem"
+                                h="55rem"
+                                radius="lg"
+                                c={colorScheme === "dark" ? "#d8dee9" : "#4c566a"}
+                                bg={colorScheme === "light" ? "#e5e9f0" : "#3b4252"}
                             >
-                                {colorScheme === "light" ? <IconMoon size={24} /> : <IconSun size={24} />}
-                            </ActionIcon>
+                                <ActionIcon
+                                    onClick={() => toggleColorScheme()}
+                                    color={colorScheme === "light" ? "#5e81ac" : "#ebcb8b"}
+                                    variant="subtle"
+                                    radius="xl"
+                                    size={36}
+                                    style={themeToggleStyle}
+                                >
+                                    {colorScheme === "light" ? <IconMoon size={24} /> : <IconSun size={24} />}
+                                </ActionIcon>
 
-                            <Tabs value={activeTab} onChange={setActiveTab} color="#81a1c1" variant="pills" radius="md">
-                                <Tabs.List>
-                                    <Tabs.Tab value="configView">Config View</Tabs.Tab>
-                                    <Tabs.Tab value="calendarView">Calendar View</Tabs.Tab>
-                                </Tabs.List>
+                                <Tabs value={activeTab} onChange={setActiveTab} color="#81a1c1" variant="pills" radius="md">
+                                    <Tabs.List>
+                                        <Tabs.Tab value="configView">Config View</Tabs.Tab>
+                                        <Tabs.Tab value="calendarView">Calendar View</Tabs.Tab>
+                                        <Tabs.Tab value="overview">Overview</Tabs.Tab>
+                                    </Tabs.List>
 
-                                <Tabs.Panel value="configView" my="lg" mx="xs">
-                                    <ConfigView />
-                                </Tabs.Panel>
-                                <Tabs.Panel value="calendarView" my="lg" mx="xs">
-                                    <CalendarView />
-                                </Tabs.Panel>
-                            </Tabs>
-                        </Paper>
-                    </div>
-                </Container>
+                                    <Tabs.Panel value="configView" my="lg" mx="xs">
+                                        <ConfigView />
+                                    </Tabs.Panel>
+                                    <Tabs.Panel value="calendarView" my="lg" mx="xs">
+                                        <CalendarView />
+                                    </Tabs.Panel>
+                                    <Tabs.Panel value="overview" my="lg" mx="xs">
+                                        <ScheduleOverview onOpenCombination={() => setActiveTab('calendarView')} />
+                                    </Tabs.Panel>
+                                </Tabs>
+                            </Paper>
+                        </div>
+                    </Container>
+                </ConstraintsProvider>
             </FilterProvider>
         </ScheduleProvider>
     );
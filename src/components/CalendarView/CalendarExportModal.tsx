@@ -0,0 +1,138 @@
+import { useMemo, useState } from 'react';
+import { Modal, Stack, Group, TextInput, Button, ActionIcon, Text, Alert } from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { IconCalendarDown, IconPlus, IconTrash } from '@tabler/icons-react';
+import type { ScheduleCombination } from '../../utilities/scheduleGenerator';
+import {
+    createScheduleCalendar,
+    createTermBreak,
+    getSuggestedTermDates,
+    validateCalendarExportOptions,
+    type TermBreak
+} from '../../utilities/icsExport';
+import { downloadFile } from '../../utilities/download';
+
+interface CalendarExportModalProps {
+    opened: boolean;
+    onClose: () => void;
+    combination: ScheduleCombination;
+}
+
+/**
+ * Asks for the term dates and breaks, then downloads the schedule as an .ics
+ * file. Term dates default to the dates listed by the sections, if any.
+ */
+export function CalendarExportModal({ opened, onClose, combination }: CalendarExportModalProps) {
+    const suggested = useMemo(() => getSuggestedTermDates(combination.sections), [combination]);
+    const [termStart, setTermStart] = useState<string | null>(null);
+    const [termEnd, setTermEnd] = useState<string | null>(null);
+    const [termBreaks, setTermBreaks] = useState<TermBreak[]>([]);
+
+    const options = {
+        termStart: termStart ?? suggested.termStart,
+        termEnd: termEnd ?? suggested.termEnd,
+        termBreaks
+    };
+    const error = validateCalendarExportOptions(options);
+    const sectionsWithOwnDates = combination.sections.filter(section => section.startDate && section.endDate).length;
+
+    const updateTermBreak = (id: string, changes: Partial<TermBreak>) => {
+        setTermBreaks(previous => previous.map(termBreak =>
+            termBreak.id === id ? { ...termBreak, ...changes } : termBreak
+        ));
+    };
+
+    const handleExport = () => {
+        if (error) return;
+        downloadFile(createScheduleCalendar(combination, options), `schedule-${combination.id}.ics`, 'text/calendar');
+        notifications.show({
+            title: 'Calendar exported',
+            message: 'Import the .ics file into your calendar app to add every class for the term.',
+            color: 'green',
+            autoClose: 3000,
+        });
+        onClose();
+    };
+
+    return (
+        <Modal opened={opened} onClose={onClose} title="Export to calendar" size="lg">
+            <Stack gap="sm">
+                <Group grow>
+                    <TextInput
+                        type="date"
+                        label="First day of term"
+                        value={options.termStart}
+                        onChange={(event) => setTermStart(event.currentTarget.value)}
+                    />
+                    <TextInput
+                        type="date"
+                        label="Last day of term"
+                        value={options.termEnd}
+                        onChange={(event) => setTermEnd(event.currentTarget.value)}
+                    />
+                </Group>
+                {sectionsWithOwnDates > 0 && (
+                    <Text size="xs" c="dimmed">
+                        {sectionsWithOwnDates} of {combination.sections.length} sections list their own dates,
+                        which are used instead of the term for those sections.
+                    </Text>
+                )}
+
+                <Text size="sm" fw={500}>Holidays and breaks without classes</Text>
+                {termBreaks.map(termBreak => (
+                    <Group key={termBreak.id} gap="xs" wrap="nowrap">
+                        <TextInput
+                            style={{ flex: 1 }}
+                            placeholder="Label, e.g. Reading week"
+                            value={termBreak.label}
+                            onChange={(event) => updateTermBreak(termBreak.id, { label: event.currentTarget.value })}
+                        />
+                        <TextInput
+                            type="date"
+                            value={termBreak.startDate}
+                            onChange={(event) => updateTermBreak(termBreak.id, { startDate: event.currentTarget.value })}
+                        />
+                        <TextInput
+                            type="date"
+                            value={termBreak.endDate}
+                            onChange={(event) => updateTermBreak(termBreak.id, { endDate: event.currentTarget.value })}
+                        />
+                        <ActionIcon
+                            variant="subtle"
+                            color="#bf616a"
+                            onClick={() => setTermBreaks(previous => previous.filter(({ id }) => id !== termBreak.id))}
+                            aria-label="Remove break"
+                        >
+                            <IconTrash size={16} />
+                        </ActionIcon>
+                    </Group>
+                ))}
+                <Group justify="flex-start">
+                    <Button
+                        variant="light"
+                        size="xs"
+                        color="#5e81ac"
+                        leftSection={<IconPlus size={14} />}
+                        onClick={() => setTermBreaks(previous => [...previous, createTermBreak(options.termStart)])}
+                    >
+                        Add break
+                    </Button>
+                </Group>
+
+                {error && <Alert color="yellow">{error}</Alert>}
+
+                <Group justify="flex-end">
+                    <Button variant="subtle" onClick={onClose}>Cancel</Button>
+                    <Button
+                        color="#5e81ac"
+                        leftSection={<IconCalendarDown size={16} />}
+                        onClick={handleExport}
+                        disabled={error !== null}
+                    >
+                        Download .ics
+                    </Button>
+                </Group>
+            </Stack>
+        </Modal>
+    );
+}
\ No newline at end of file
@@ -1,12 +1,52 @@
-import { useMemo } from 'react';
-import { Calendar, momentLocalizer } from 'react-big-calendar';
+import { createContext, useContext, useMemo, useState } from 'react';
+import { Calendar, momentLocalizer, type SlotInfo } from 'react-big-calendar';
+import withDragAndDrop, { type EventInteractionArgs } from 'react-big-calendar/lib/addons/dragAndDrop';
 import moment from 'moment';
 import 'react-big-calendar/lib/css/react-big-calendar.css';
-import { Stack, Group, Button, Text, Alert, useMantineColorScheme } from '@mantine/core';
+import 'react-big-calendar/lib/addons/dragAndDrop/styles.css';
+import { Stack, Group, Button, Text, Alert, ActionIcon, Select, Badge, Menu, useMantineColorScheme } from '@mantine/core';
 import {notifications} from '@mantine/notifications';
-import { IconChevronLeft, IconChevronRight, IconCheck } from '@tabler/icons-react';
+import {
+    IconChevronLeft,
+    IconChevronRight,
+    IconCheck,
+    IconPin,
+    IconPinFilled,
+    IconPencil,
+    IconLock,
+    IconLockOpen,
+    IconX,
+    IconAlertTriangle,
+    IconArrowsExchange,
+    IconCalendarDown,
+    IconCopy,
+    IconFileExport,
+    IconPrinter,
+    IconPhoto,
+    IconFileTypePdf,
+    IconLayoutColumns
+} from '@tabler/icons-react';
 import { useSchedule } from '../../context/scheduleContext';
-import type { CourseSection } from '../../utilities/csvParser';
+import { useConstraints } from '../../context/useConstraints';
+import { useFilters } from '../../context/filterContext';
+import type { BusyBlock } from '../../types/filters';
+import { createBusyBlock, getActiveBusyBlocks, isValidBusyBlock } from '../../utilities/busyBlocks';
+import { DAYS_OF_WEEK, minutesToTime, timeToMinutes } from '../../utilities/timeUtils';
+import { findTravelViolations, hasTravelRules } from '../../utilities/travelBuffer';
+import { getSectionLocation, type CourseSection } from '../../utilities/csvParser';
+import { ScoreSummary } from './ScoreSummary';
+import { ScheduleIdBar } from './ScheduleIdBar';
+import { SectionAlternatives } from './SectionAlternatives';
+import { CalendarExportModal } from './CalendarExportModal';
+import { CrnExportModal } from './CrnExportModal';
+import { TimetableLegend } from './TimetableLegend';
+import { NORD_COLORS, COURSE_COLORS } from './calendarColors';
+import { ScheduleComparison } from './ScheduleComparison';
+import { MAX_COMPARED_COMBINATIONS } from '../../utilities/scheduleComparison';
+import { formatScheduleCombination, type ScheduleCombination } from '../../utilities/scheduleGenerator';
+import { renderTimetableImage, type TimetableImageColors } from '../../utilities/timetableImage';
+import { createCanvasPdf } from '../../utilities/pdfExport';
+import { downloadFile } from '../../utilities/download';
 
 // Configure moment to start weeks on Monday
 moment.updateLocale('en-US', {
@@ -18,28 +58,213 @@ moment.updateLocale('en-US', {
 
 const localizer = momentLocalizer(moment);
 
-const NORD_COLORS = {
-    purple: '#b48ead',
-    green: '#a3be8c',
-    red: '#bf616a',
-    blue: '#88c0d0',
-    yellow: '#ebcb8b',
-    darkBg: '#2e3440',
-    darkBg2: '#3b4252',
-    lightBg: '#eceff4',
-    lightBg2: '#e5e9f0',
-    darkText: '#2e3440',
-    lightText: '#eceff4',
-};
-
 interface CourseEvent {
+    kind: 'course';
     id: string;
     title: string;
+    tooltip: string;
     start: Date;
     end: Date;
     courseSection: CourseSection;
     meetingType: 'Online' | 'In-person';
     courseIndex: number;
+    travelWarning: string | null;   // Set when the meeting starts too soon after the previous one
+    previewState?: 'added' | 'removed'; // How a previewed swap changes this meeting
+}
+
+// Shaded background event for one of the user's busy blocks
+interface BusyEvent {
+    kind: 'busy';
+    id: string;
+    title: string;
+    tooltip: string;
+    start: Date;
+    end: Date;
+    busyBlock: BusyBlock;
+    isEditable: boolean;
+}
+
+type CalendarEvent = CourseEvent | BusyEvent;
+
+// Exported images use the light theme so they print and share well
+const IMAGE_COLORS: TimetableImageColors = {
+    courseColors: COURSE_COLORS,
+    background: NORD_COLORS.lightBg,
+    headerBackground: NORD_COLORS.lightBg2,
+    grid: '#d8dee9',
+    text: NORD_COLORS.darkText,
+    eventText: NORD_COLORS.darkText
+};
+
+// Printing shows only the week grid and legend, in light colours on a landscape page
+const PRINT_STYLE = `
+    .print-only {
+        display: none;
+    }
+    @media print {
+        @page {
+            size: landscape;
+            margin: 10mm;
+        }
+        body * {
+            visibility: hidden;
+        }
+        .timetable-print, .timetable-print * {
+            visibility: visible;
+        }
+        .timetable-print {
+            position: fixed;
+            inset: 0;
+            width: 100%;
+        }
+        .timetable-print .no-print, .timetable-print .rbc-event button {
+            display: none !important;
+        }
+        .timetable-print .print-only {
+            display: block;
+        }
+        .timetable-print .calendar-wrapper {
+            height: 150mm !important;
+        }
+        .timetable-print .rbc-time-view, .timetable-print .rbc-time-content,
+        .timetable-print .rbc-day-slot .rbc-time-slot, .timetable-print .rbc-header,
+        .timetable-print .rbc-time-header, .timetable-print .rbc-time-header-content,
+        .timetable-print .rbc-time-gutter, .timetable-print .rbc-time-view .rbc-row {
+            background-color: #ffffff !important;
+            color: ${NORD_COLORS.darkText} !important;
+        }
+        .timetable-print .rbc-event {
+            print-color-adjust: exact;
+            -webkit-print-color-adjust: exact;
+            break-inside: avoid;
+        }
+    }
+`;
+
+const DragAndDropCalendar = withDragAndDrop<CalendarEvent>(Calendar);
+
+// Lets event bodies open the alternatives panel for their course
+const ShowAlternativesContext = createContext<(courseId: string) => void>(() => {});
+
+// Day and "HH:MM" times of a range selected or dragged on the week grid, or null if it spans several days
+const getBusyBlockTimes = (start: Date, end: Date): Pick<BusyBlock, 'day' | 'startTime' | 'endTime'> | null => {
+    if (start.toDateString() !== end.toDateString()) return null;
+    return {
+        day: DAYS_OF_WEEK[(start.getDay() + 6) % 7],
+        startTime: minutesToTime(start.getHours() * 60 + start.getMinutes()),
+        endTime: minutesToTime(end.getHours() * 60 + end.getMinutes())
+    };
+};
+
+// Busy block body; while editing it offers hard/soft and delete controls
+function BusyEventContent({ event }: { event: BusyEvent }) {
+    const { filters, setFilters } = useFilters();
+    const { busyBlock } = event;
+
+    if (!event.isEditable) return <>{event.title}</>;
+
+    const handleToggleHard = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        setFilters({
+            ...filters,
+            busyBlocks: filters.busyBlocks.map(block =>
+                block.id === busyBlock.id ? { ...block, isHard: !block.isHard } : block
+            )
+        });
+    };
+
+    const handleDelete = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        setFilters({
+            ...filters,
+            busyBlocks: filters.busyBlocks.filter(block => block.id !== busyBlock.id)
+        });
+    };
+
+    return (
+        <div style={{ position: 'relative' }}>
+            <Group gap={0} style={{ position: 'absolute', top: 0, right: 0 }}>
+                <ActionIcon
+                    variant="transparent"
+                    color={NORD_COLORS.darkText}
+                    size="sm"
+                    onClick={handleToggleHard}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    aria-label={busyBlock.isHard ? 'Make soft' : 'Make hard'}
+                >
+                    {busyBlock.isHard ? <IconLock size={14} /> : <IconLockOpen size={14} />}
+                </ActionIcon>
+                <ActionIcon
+                    variant="transparent"
+                    color={NORD_COLORS.darkText}
+                    size="sm"
+                    onClick={handleDelete}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    aria-label="Delete busy time"
+                >
+                    <IconX size={14} />
+                </ActionIcon>
+            </Group>
+            {event.title}
+        </div>
+    );
+}
+
+// Event body with a pin toggle; clicking elsewhere on the event still copies the CRN
+function CourseEventContent({ event }: { event: CalendarEvent }) {
+    const { pinnedCrns, togglePinned } = useConstraints();
+    const showAlternatives = useContext(ShowAlternativesContext);
+
+    if (event.kind === 'busy') return <BusyEventContent event={event} />;
+
+    const isPinned = pinnedCrns.has(event.courseSection.crn);
+
+    const handlePinClick = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        togglePinned(event.courseSection);
+        notifications.show({
+            title: isPinned ? 'Section unpinned' : 'Section pinned',
+            message: `CRN ${event.courseSection.crn} ${isPinned ? 'is no longer' : 'will be'} locked in. Regenerate schedules to apply.`,
+            color: 'blue',
+            autoClose: 3000,
+        });
+    };
+
+    const handleAlternativesClick = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        showAlternatives(`${event.courseSection.subject}${event.courseSection.courseCode}`);
+    };
+
+    return (
+        <div style={{ position: 'relative' }}>
+            {!event.previewState && (
+                <Group gap={0} style={{ position: 'absolute', top: 0, right: 0 }}>
+                    <ActionIcon
+                        variant="transparent"
+                        color={NORD_COLORS.darkText}
+                        size="sm"
+                        onClick={handleAlternativesClick}
+                        aria-label="Show alternative sections"
+                    >
+                        <IconArrowsExchange size={14} />
+                    </ActionIcon>
+                    <ActionIcon
+                        variant="transparent"
+                        color={NORD_COLORS.darkText}
+                        size="sm"
+                        onClick={handlePinClick}
+                        aria-label={isPinned ? 'Unpin section' : 'Pin section'}
+                    >
+                        {isPinned ? <IconPinFilled size={14} /> : <IconPin size={14} />}
+                    </ActionIcon>
+                </Group>
+            )}
+            {event.travelWarning && (
+                <IconAlertTriangle size={14} color={NORD_COLORS.red} style={{ verticalAlign: 'text-bottom', marginRight: 4 }} />
+            )}
+            {event.title}
+        </div>
+    );
 }
 
 function CalendarView() {
@@ -47,12 +272,29 @@ function CalendarView() {
     const isDark = colorScheme === 'dark';
 
     const {
+        scheduleResults,
         currentCombination,
-        currentCombinationIndex,
+        currentGroup,
+        currentGroupIndex,
+        totalGroups,
         totalCombinations,
-        nextCombination,
-        previousCombination
+        nextGroup,
+        previousGroup,
+        currentAlternativeIndex,
+        setCurrentAlternativeIndex,
+        isCustomCombination,
+        clearCustomCombination,
+        comparedCombinations,
+        toggleCompared
     } = useSchedule();
+    const { pinnedCrns } = useConstraints();
+    const { filters, setFilters } = useFilters();
+    const [isEditingBusyTimes, setIsEditingBusyTimes] = useState(false);
+    const [alternativesCourseId, setAlternativesCourseId] = useState<string | null>(null);
+    const [previewCombination, setPreviewCombination] = useState<ScheduleCombination | null>(null);
+    const [isExportOpen, setIsExportOpen] = useState(false);
+    const [isCrnExportOpen, setIsCrnExportOpen] = useState(false);
+    const [isComparisonOpen, setIsComparisonOpen] = useState(false);
 
     const createDateForTime = (dayName: string, timeString: string): Date => {
         const days = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
@@ -68,7 +310,27 @@ function CalendarView() {
         return `${moment(startTime, 'HH:mm').format('h:mm A')} - ${moment(endTime, 'HH:mm').format('h:mm A')}`;
     };
 
-    const handleEventClick = (event: CourseEvent) => {
+    const formatSectionTooltip = (section: CourseSection, timeRange: string, meetingType: string): string => {
+        const location = getSectionLocation(section);
+        const lines = [
+            `${section.courseName} (${section.subject} ${section.courseCode})`,
+            section.component && `Component: ${section.component}${section.linkGroup ? ` (link ${section.linkGroup})` : ''}`,
+            `${timeRange} | ${meetingType}`,
+            `CRN: ${section.crn}`,
+            section.instructor && `Instructor: ${section.instructor}`,
+            location && `Location: ${location}`,
+            section.credits !== undefined && `Credits: ${section.credits}`,
+            section.capacity !== undefined &&
+                `Seats: ${section.enrolled ?? '?'}/${section.capacity}` +
+                (section.waitlist ? ` (${section.waitlist} waitlisted)` : ''),
+            (section.startDate || section.endDate) &&
+                `Runs: ${section.startDate ?? '?'} to ${section.endDate ?? '?'}`
+        ];
+        return lines.filter(Boolean).join('\n');
+    };
+
+    const handleEventClick = (event: CalendarEvent) => {
+        if (event.kind !== 'course') return;
         const crn = event.courseSection.crn;
         navigator.clipboard.writeText(crn).then(() => {
             notifications.show({
@@ -88,13 +350,76 @@ function CalendarView() {
         });
     };
 
+    // Meetings reached too late to travel there, keyed by CRN, day and start time
+    const travelWarnings = useMemo(() => {
+        const warnings = new Map<string, string>();
+        if (!currentCombination || !hasTravelRules(filters)) return warnings;
+        findTravelViolations(currentCombination.sections, filters).forEach(violation => {
+            const key = `${violation.to.crn}-${violation.day}-${violation.toStart}`;
+            const message = `Only ${violation.gapMinutes} min after CRN ${violation.from.crn}, ` +
+                `${violation.requiredMinutes} min needed to get here`;
+            warnings.set(key, warnings.has(key) ? `${warnings.get(key)}\n${message}` : message);
+        });
+        return warnings;
+    }, [currentCombination, filters]);
+
+    const handleCopyAllCrns = () => {
+        if (!currentCombination) return;
+        const crns = formatScheduleCombination(currentCombination, 'crnLines');
+        navigator.clipboard.writeText(crns).then(() => {
+            notifications.show({
+                title: 'CRNs Copied!',
+                message: `${crns.split('\n').length} CRNs have been copied to clipboard`,
+                color: 'green',
+                icon: <IconCheck size="1.1rem" />,
+                withBorder: true,
+                autoClose: 2000,
+            });
+        }).catch(() => {
+            notifications.show({
+                title: 'Failed to copy',
+                message: 'Could not copy CRNs to clipboard',
+                color: 'red',
+            });
+        });
+    };
+
+    const isCompared = currentCombination !== null &&
+        comparedCombinations.some(combination => combination.id === currentCombination.id);
+
+    const handleSaveImage = (format: 'png' | 'pdf') => {
+        if (!currentCombination) return;
+        const canvas = renderTimetableImage(currentCombination, IMAGE_COLORS);
+        const fileName = `schedule-${currentCombination.id}.${format}`;
+        if (format === 'pdf') {
+            downloadFile(createCanvasPdf(canvas), fileName, 'application/pdf');
+            return;
+        }
+        canvas.toBlob(blob => {
+            if (blob) downloadFile(blob, fileName, 'image/png');
+        }, 'image/png');
+    };
+
     const events = useMemo(() => {
         if (!currentCombination) return [];
         const calendarEvents: CourseEvent[] = [];
         const coursesMap = new Map<string, number>();
         let colorIndex = 0;
 
-        currentCombination.sections.forEach(section => {
+        // While a swap is previewed, the sections it drops stay visible next to the ones it adds
+        const currentCrns = new Set(currentCombination.sections.map(section => section.crn));
+        const previewCrns = new Set(previewCombination?.sections.map(section => section.crn));
+        const shownSections: Array<{ section: CourseSection; previewState?: CourseEvent['previewState'] }> = [
+            ...currentCombination.sections.map(section => ({
+                section,
+                previewState: previewCombination && !previewCrns.has(section.crn) ? 'removed' as const : undefined
+            })),
+            ...(previewCombination?.sections ?? [])
+                .filter(section => !currentCrns.has(section.crn))
+                .map(section => ({ section, previewState: 'added' as const }))
+        ];
+
+        shownSections.forEach(({ section, previewState }) => {
             const courseKey = `${section.subject}${section.courseCode}`;
             if (!coursesMap.has(courseKey)) {
                 coursesMap.set(courseKey, colorIndex++);
@@ -105,40 +430,130 @@ function CalendarView() {
                 const start = createDateForTime(meeting.day, meeting.time.startTime);
                 const end = createDateForTime(meeting.day, meeting.time.endTime);
                 const timeRange = formatTimeRange(meeting.time.startTime, meeting.time.endTime);
+                const details = [section.instructor, meeting.type === 'In-person' ? getSectionLocation(section) : null]
+                    .filter(Boolean)
+                    .join(' | ');
+                const dayIndex = DAYS_OF_WEEK.indexOf(meeting.day as typeof DAYS_OF_WEEK[number]);
+                const travelWarning = travelWarnings.get(
+                    `${section.crn}-${dayIndex}-${timeToMinutes(meeting.time.startTime)}`
+                ) ?? null;
+                const tooltip = formatSectionTooltip(section, timeRange, meeting.type);
 
                 calendarEvents.push({
+                    kind: 'course',
                     id: `${section.crn}-${index}`,
-                    title: `${section.courseName}\n${section.subject} ${section.courseCode}\n${timeRange}\n${meeting.type} | CRN: ${section.crn}`,
+                    title: `${section.courseName}\n${section.subject} ${section.courseCode}${section.component ? ` ${section.component}` : ''}\n${timeRange}\n${meeting.type} | CRN: ${section.crn}` +
+                        (details ? `\n${details}` : ''),
+                    tooltip: travelWarning ? `${tooltip}\nTravel: ${travelWarning}` : tooltip,
                     start,
                     end,
                     courseSection: section,
                     meetingType: meeting.type,
-                    courseIndex: courseColorIndex
+                    courseIndex: courseColorIndex,
+                    travelWarning,
+                    previewState
                 });
             });
         });
 
         return calendarEvents;
-    }, [currentCombination]);
-
-    const eventStyleGetter = (event: CourseEvent): { style: React.CSSProperties } => {
-        const colors = [
-            NORD_COLORS.purple,
-            NORD_COLORS.green,
-            NORD_COLORS.red,
-            NORD_COLORS.blue,
-            NORD_COLORS.yellow
-        ];
-        const backgroundColor = colors[event.courseIndex % colors.length];
+    }, [currentCombination, previewCombination, travelWarnings]);
+
+    const busyEvents = useMemo((): BusyEvent[] => {
+        const blocks = isEditingBusyTimes ? filters.busyBlocks : getActiveBusyBlocks(filters);
+        return blocks.filter(isValidBusyBlock).map(block => {
+            const description = `${block.label || 'Busy'} (${block.isHard ? 'hard' : 'soft'})`;
+            return {
+                kind: 'busy',
+                id: block.id,
+                title: description,
+                tooltip: `${description}\n${formatTimeRange(block.startTime, block.endTime)}`,
+                start: createDateForTime(block.day, block.startTime),
+                end: createDateForTime(block.day, block.endTime),
+                busyBlock: block,
+                isEditable: isEditingBusyTimes
+            };
+        });
+    }, [filters, isEditingBusyTimes]);
+
+    // Each alternative in the group is listed by its CRNs, which are all that differ
+    const alternativeOptions = useMemo(() => {
+        if (!currentGroup) return [];
+        return currentGroup.combinations.map((combination, index) => ({
+            value: String(index),
+            label: `Option ${index + 1} of ${currentGroup.combinations.length}: CRN ` +
+                combination.sections.map(section => section.crn).join(', ')
+        }));
+    }, [currentGroup]);
+
+    // Optional courses this combination had to leave out
+    const leftOutCourses = useMemo(() => {
+        if (!currentCombination || !scheduleResults) return [];
+        const includedIds = new Set(currentCombination.sections.map(section => `${section.subject}${section.courseCode}`));
+        return scheduleResults.stats.coursesIncluded.filter(courseId => !includedIds.has(courseId));
+    }, [currentCombination, scheduleResults]);
+
+    // Editing busy blocks here makes them apply, without turning on the other filters
+    const updateBusyBlocks = (busyBlocks: BusyBlock[]) => {
+        setFilters({ ...filters, busyBlocksEnabled: true, busyBlocks });
+    };
+
+    // Selections and moves get the same checks as the busy times form; any that
+    // span several days or collapse the block are ignored
+    const handleSelectSlot = (slot: SlotInfo) => {
+        const times = getBusyBlockTimes(slot.start, slot.end);
+        if (!times) return;
+        const busyBlock = createBusyBlock(times.day, times.startTime, times.endTime);
+        if (!isValidBusyBlock(busyBlock)) return;
+        updateBusyBlocks([...filters.busyBlocks, busyBlock]);
+    };
+
+    const handleBusyBlockChange = ({ event, start, end }: EventInteractionArgs<CalendarEvent>) => {
+        if (event.kind !== 'busy') return;
+        const times = getBusyBlockTimes(new Date(start), new Date(end));
+        if (!times || !isValidBusyBlock({ ...event.busyBlock, ...times })) return;
+        updateBusyBlocks(filters.busyBlocks.map(block =>
+            block.id === event.busyBlock.id ? { ...block, ...times } : block
+        ));
+    };
+
+    const eventStyleGetter = (event: CalendarEvent): { style: React.CSSProperties } => {
+        if (event.kind === 'busy') {
+            const stripe = event.busyBlock.isHard ? 'rgba(191, 97, 106, 0.35)' : 'rgba(235, 203, 139, 0.35)';
+            return {
+                style: {
+                    background: `repeating-linear-gradient(45deg, ${stripe}, ${stripe} 6px, transparent 6px, transparent 12px)`,
+                    border: `1px dashed ${event.busyBlock.isHard ? NORD_COLORS.red : NORD_COLORS.yellow}`,
+                    borderRadius: '4px',
+                    color: isDark ? NORD_COLORS.lightText : NORD_COLORS.darkText,
+                    fontSize: '0.75rem',
+                    padding: '2px 6px',
+                    cursor: 'default'
+                }
+            };
+        }
+
+        const backgroundColor = COURSE_COLORS[event.courseIndex % COURSE_COLORS.length];
 
         return {
             style: {
                 backgroundColor,
-                border: 'none',
+                border: pinnedCrns.has(event.courseSection.crn) ? `2px solid ${NORD_COLORS.darkText}` : 'none',
+                // Rushed transfers and previewed sections get a dashed outline, which leaves the pin border visible
+                outline: event.travelWarning
+                    ? `2px dashed ${NORD_COLORS.red}`
+                    : event.previewState === 'added' ? `2px dashed ${NORD_COLORS.darkText}` : 'none',
+                outlineOffset: '-4px',
+                boxShadow: event.previewState === 'added' ? '0 0 8px rgba(46, 52, 64, 0.5)' : 'none',
                 borderRadius: '4px',
                 color: isDark ? NORD_COLORS.darkText : NORD_COLORS.darkText,
                 fontSize: '0.875rem',
-                opacity: event.meetingType === 'Online' ? 0.75 : 1,
+                // Course events fade while busy times are edited so the blocks stand out,
+                // and sections a previewed swap would drop fade out of the way
+                opacity: isEditingBusyTimes || event.previewState === 'removed'
+                    ? 0.4
+                    : event.meetingType === 'Online' ? 0.75 : 1,
+                textDecoration: event.previewState === 'removed' ? 'line-through' : 'none',
                 whiteSpace: 'pre-wrap',
                 padding: '4px 8px',
                 lineHeight: 1.4,
@@ -148,10 +563,22 @@ function CalendarView() {
         };
     };
 
-    if (!currentCombination) {
+    if (!currentCombination && !isEditingBusyTimes) {
         return (
             <Alert color="blue" title="No Schedule Selected">
-                Please go to the Config View tab, upload a course data file, and generate schedule combinations.
+                <Stack gap="sm" align="flex-start">
+                    <Text size="sm">
+                        Please go to the Config View tab, upload a course data file, and generate schedule combinations.
+                    </Text>
+                    <Button
+                        variant="light"
+                        size="xs"
+                        leftSection={<IconPencil size={14} />}
+                        onClick={() => setIsEditingBusyTimes(true)}
+                    >
+                        Mark busy times first
+                    </Button>
+                </Stack>
             </Alert>
         );
     }
@@ -253,58 +680,232 @@ function CalendarView() {
     `;
 
     return (
-        <Stack gap="md">
-            <Group justify="space-between" align="center">
-                <Group>
+        <Stack gap="md" className="timetable-print">
+            <Group justify="space-between" align="center" className="no-print">
+                {currentCombination ? (
+                    <Group>
+                        <Button
+                            leftSection={<IconChevronLeft size={14} />}
+                            onClick={previousGroup}
+                            disabled={currentGroupIndex === 0}
+                            variant="light"
+                            color={isDark ? "#88c0d0" : "#5e81ac"}
+                            w="7rem"
+                        >
+                            Previous
+                        </Button>
+                        <Button
+                            rightSection={<IconChevronRight size={14}/>}
+                            onClick={nextGroup}
+                            disabled={currentGroupIndex === totalGroups - 1}
+                            variant="light"
+                            color={isDark ? "#88c0d0" : "#5e81ac"}
+                            w="7rem"
+                        >
+                            Next
+                        </Button>
+                        {isCustomCombination ? (
+                            <>
+                                <Badge variant="light" color="grape">Custom</Badge>
+                                <Button size="xs" variant="subtle" onClick={clearCustomCombination}>
+                                    Back to timetable {currentGroupIndex + 1}
+                                </Button>
+                            </>
+                        ) : (
+                            <Text size="sm" c="dimmed">
+                                Showing timetable {currentGroupIndex + 1} of {totalGroups}
+                                {' '}({totalCombinations} combinations)
+                                {scheduleResults && !scheduleResults.stats.isComplete && ' (partial results)'}
+                            </Text>
+                        )}
+                        {!isCustomCombination && alternativeOptions.length > 1 && (
+                            <Select
+                                size="xs"
+                                w="22rem"
+                                aria-label="Equivalent CRN sets"
+                                data={alternativeOptions}
+                                value={String(currentAlternativeIndex)}
+                                onChange={(value) => value !== null && setCurrentAlternativeIndex(Number(value))}
+                                allowDeselect={false}
+                            />
+                        )}
+                    </Group>
+                ) : (
+                    <div />
+                )}
+                <Group gap="sm">
+                    {currentCombination && (
+                        <>
+                            <ScoreSummary combination={currentCombination} />
+                            <Text size="sm" fw={500}>
+                                {currentCombination.courseCount} courses selected
+                            </Text>
+                            {leftOutCourses.length > 0 && (
+                                <Text size="sm" c="dimmed">
+                                    (leaves out {leftOutCourses.join(', ')})
+                                </Text>
+                            )}
+                        </>
+                    )}
+                    {currentCombination && (
+                        <>
+                            <Button
+                                leftSection={<IconCalendarDown size={14} />}
+                                onClick={() => setIsExportOpen(true)}
+                                variant="light"
+                                color={isDark ? "#88c0d0" : "#5e81ac"}
+                            >
+                                Export to calendar
+                            </Button>
+                            <Menu position="bottom-end">
+                                <Menu.Target>
+                                    <Button
+                                        leftSection={<IconPrinter size={14} />}
+                                        variant="light"
+                                        color={isDark ? "#88c0d0" : "#5e81ac"}
+                                    >
+                                        Print / save
+                                    </Button>
+                                </Menu.Target>
+                                <Menu.Dropdown>
+                                    <Menu.Item leftSection={<IconPrinter size={14} />} onClick={() => window.print()}>
+                                        Print
+                                    </Menu.Item>
+                                    <Menu.Item leftSection={<IconPhoto size={14} />} onClick={() => handleSaveImage('png')}>
+                                        Save as PNG
+                                    </Menu.Item>
+                                    <Menu.Item leftSection={<IconFileTypePdf size={14} />} onClick={() => handleSaveImage('pdf')}>
+                                        Save as PDF
+                                    </Menu.Item>
+                                </Menu.Dropdown>
+                            </Menu>
+                        </>
+                    )}
                     <Button
-                        leftSection={<IconChevronLeft size={14} />}
-                        onClick={previousCombination}
-                        disabled={currentCombinationIndex === 0}
-                        variant="light"
-                        color={isDark ? "#88c0d0" : "#5e81ac"}
-                        w="7rem"
-                    >
-                        Previous
-                    </Button>
-                    <Button
-                        rightSection={<IconChevronRight size={14}/>}
-                        onClick={nextCombination}
-                        disabled={currentCombinationIndex === totalCombinations - 1}
-                        variant="light"
+                        leftSection={isEditingBusyTimes ? <IconCheck size={14} /> : <IconPencil size={14} />}
+                        onClick={() => setIsEditingBusyTimes(editing => !editing)}
+                        variant={isEditingBusyTimes ? 'filled' : 'light'}
                         color={isDark ? "#88c0d0" : "#5e81ac"}
-                        w="7rem"
                     >
-                        Next
+                        {isEditingBusyTimes ? 'Done' : 'Edit busy times'}
                     </Button>
-                    <Text size="sm" c="dimmed">
-                        Showing combination {currentCombinationIndex + 1} of {totalCombinations}
-                    </Text>
                 </Group>
-                <Text size="sm" fw={500}>
-                    {currentCombination.courseCount} courses selected
-                </Text>
             </Group>
 
+            {currentCombination && (
+                <Text className="print-only" fw={600}>Weekly schedule {currentCombination.id}</Text>
+            )}
+
+            {currentCombination && (
+                <Group justify="space-between" className="no-print">
+                    <ScheduleIdBar combination={currentCombination} />
+                    <Group gap="xs">
+                        <Button
+                            size="xs"
+                            variant="light"
+                            color={isDark ? "#88c0d0" : "#5e81ac"}
+                            leftSection={<IconCopy size={14} />}
+                            onClick={handleCopyAllCrns}
+                        >
+                            Copy all CRNs
+                        </Button>
+                        <Button
+                            size="xs"
+                            variant="light"
+                            color={isDark ? "#88c0d0" : "#5e81ac"}
+                            leftSection={<IconFileExport size={14} />}
+                            onClick={() => setIsCrnExportOpen(true)}
+                        >
+                            Export CRNs
+                        </Button>
+                        <Button
+                            size="xs"
+                            variant={isCompared ? 'filled' : 'light'}
+                            color={isDark ? "#88c0d0" : "#5e81ac"}
+                            leftSection={<IconLayoutColumns size={14} />}
+                            onClick={() => toggleCompared(currentCombination)}
+                            disabled={!isCompared && comparedCombinations.length >= MAX_COMPARED_COMBINATIONS}
+                        >
+                            {isCompared ? 'In comparison' : 'Add to comparison'}
+                        </Button>
+                        {comparedCombinations.length > 0 && (
+                            <Button
+                                size="xs"
+                                variant="light"
+                                color={isDark ? "#88c0d0" : "#5e81ac"}
+                                onClick={() => setIsComparisonOpen(true)}
+                            >
+                                Compare ({comparedCombinations.length})
+                            </Button>
+                        )}
+                    </Group>
+                </Group>
+            )}
+
+            {isEditingBusyTimes && (
+                <Text size="sm" c="dimmed" className="no-print">
+                    Drag across empty slots to block out a time, drag or resize a block to adjust it,
+                    and use its lock to switch between hard and soft. Regenerate schedules to apply changes.
+                </Text>
+            )}
+
             <style>{calendarThemeStyle}</style>
-            <div style={wrapperStyle}>
-                <Calendar
-                    localizer={localizer}
-                    events={events}
-                    startAccessor="start"
-                    endAccessor="end"
-                    views={['week']}
-                    defaultView="week"
-                    min={new Date(0, 0, 0, 8, 0, 0)}
-                    max={new Date(0, 0, 0, 21, 0, 0)}
-                    eventPropGetter={eventStyleGetter}
-                    onSelectEvent={handleEventClick}
-                    formats={{
-                        eventTimeRangeFormat: () => '',
-                        dayHeaderFormat: (date: Date) => moment(date).format('dddd')
-                    }}
-                    toolbar={false}
-                />
+            <style>{PRINT_STYLE}</style>
+            {currentCombination && (
+                <>
+                    <CalendarExportModal
+                        opened={isExportOpen}
+                        onClose={() => setIsExportOpen(false)}
+                        combination={currentCombination}
+                    />
+                    <CrnExportModal
+                        opened={isCrnExportOpen}
+                        onClose={() => setIsCrnExportOpen(false)}
+                        combination={currentCombination}
+                    />
+                </>
+            )}
+            <ScheduleComparison opened={isComparisonOpen} onClose={() => setIsComparisonOpen(false)} />
+            <SectionAlternatives
+                courseId={alternativesCourseId}
+                onClose={() => setAlternativesCourseId(null)}
+                onPreview={setPreviewCombination}
+            />
+            <div style={wrapperStyle} className="calendar-wrapper">
+                <ShowAlternativesContext.Provider value={setAlternativesCourseId}>
+                    <DragAndDropCalendar
+                        localizer={localizer}
+                        events={isEditingBusyTimes ? [...events, ...busyEvents] : events}
+                        backgroundEvents={isEditingBusyTimes ? [] : busyEvents}
+                        startAccessor="start"
+                        endAccessor="end"
+                        views={['week']}
+                        defaultView="week"
+                        min={new Date(0, 0, 0, 8, 0, 0)}
+                        max={new Date(0, 0, 0, 21, 0, 0)}
+                        eventPropGetter={eventStyleGetter}
+                        tooltipAccessor="tooltip"
+                        onSelectEvent={handleEventClick}
+                        selectable={isEditingBusyTimes}
+                        onSelectSlot={handleSelectSlot}
+                        draggableAccessor={(event) => event.kind === 'busy' && event.isEditable}
+                        resizableAccessor={(event) => event.kind === 'busy' && event.isEditable}
+                        onEventDrop={handleBusyBlockChange}
+                        onEventResize={handleBusyBlockChange}
+                        components={{ event: CourseEventContent }}
+                        formats={{
+                            eventTimeRangeFormat: () => '',
+                            dayHeaderFormat: (date: Date) => moment(date).format('dddd')
+                        }}
+                        toolbar={false}
+                    />
+                </ShowAlternativesContext.Provider>
             </div>
+            {currentCombination && (
+                <div className="print-only">
+                    <TimetableLegend combination={currentCombination} courseColors={COURSE_COLORS} />
+                </div>
+            )}
         </Stack>
     );
 }
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Modal, Stack, Group, SegmentedControl, Textarea, Button, Text } from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { IconCopy, IconDownload } from '@tabler/icons-react';
+import {
+    formatScheduleCombination,
+    scheduleExportFormatLabels,
+    type ScheduleCombination,
+    type ScheduleExportFormat
+} from '../../utilities/scheduleGenerator';
+import { downloadFile } from '../../utilities/download';
+
+interface CrnExportModalProps {
+    opened: boolean;
+    onClose: () => void;
+    combination: ScheduleCombination;
+}
+
+// File extension and type offered when saving each format
+const exportFiles: Record<ScheduleExportFormat, { extension: string; mimeType: string }> = {
+    summary: { extension: 'txt', mimeType: 'text/plain' },
+    crnLines: { extension: 'txt', mimeType: 'text/plain' },
+    crnCsv: { extension: 'csv', mimeType: 'text/csv' },
+    table: { extension: 'tsv', mimeType: 'text/tab-separated-values' }
+};
+
+/**
+ * Previews the combination in each export format, ready to copy into the
+ * registration form or save for a spreadsheet
+ */
+export function CrnExportModal({ opened, onClose, combination }: CrnExportModalProps) {
+    const [format, setFormat] = useState<ScheduleExportFormat>('crnLines');
+    const text = formatScheduleCombination(combination, format);
+
+    const handleCopy = () => {
+        navigator.clipboard.writeText(text).then(() => {
+            notifications.show({
+                title: 'Copied!',
+                message: `${scheduleExportFormatLabels[format]} copied to clipboard`,
+                color: 'green',
+                autoClose: 2000,
+            });
+        }).catch(() => {
+            notifications.show({
+                title: 'Failed to copy',
+                message: 'Could not copy to clipboard',
+                color: 'red',
+            });
+        });
+    };
+
+    const handleDownload = () => {
+        const { extension, mimeType } = exportFiles[format];
+        downloadFile(text, `schedule-${combination.id}.${extension}`, mimeType);
+    };
+
+    return (
+        <Modal opened={opened} onClose={onClose} title="Export CRNs" size="xl">
+            <Stack gap="sm">
+                <SegmentedControl
+                    fullWidth
+                    data={(Object.keys(scheduleExportFormatLabels) as ScheduleExportFormat[]).map(value => ({
+                        value,
+                        label: scheduleExportFormatLabels[value]
+                    }))}
+                    value={format}
+                    onChange={(value) => setFormat(value as ScheduleExportFormat)}
+                />
+                <Textarea
+                    readOnly
+                    autosize
+                    minRows={4}
+                    maxRows={14}
+                    value={text}
+                    styles={{ input: { fontFamily: 'monospace', whiteSpace: 'pre', overflowX: 'auto' } }}
+                />
+                <Text size="xs" c="dimmed">
+                    {format === 'table'
+                        ? 'Columns are separated by tabs, so the table pastes into spreadsheets cell by cell.'
+                        : 'Paste the CRNs into your registration form.'}
+                </Text>
+                <Group justify="flex-end">
+                    <Button
+                        variant="light"
+                        color="#5e81ac"
+                        leftSection={<IconDownload size={16} />}
+                        onClick={handleDownload}
+                    >
+                        Download
+                    </Button>
+                    <Button color="#5e81ac" leftSection={<IconCopy size={16} />} onClick={handleCopy}>
+                        Copy
+                    </Button>
+                </Group>
+            </Stack>
+        </Modal>
+    );
+}
\ No newline at end of file
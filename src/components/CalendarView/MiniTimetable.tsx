@@ -0,0 +1,73 @@
+import type { CSSProperties } from 'react';
+import type { CourseSection } from '../../utilities/csvParser';
+import { getSectionIntervals } from '../../utilities/conflictMatrix';
+import { WEEKDAYS } from '../../utilities/timeUtils';
+import { NORD_COLORS } from './calendarColors';
+
+interface MiniTimetableProps {
+    sections: CourseSection[];
+    getCourseColor: (courseId: string) => string;
+    highlightedCrns?: Set<string>;   // Outlined, e.g. sections that differ from other schedules
+    height?: number;
+}
+
+// Same hours as the full calendar
+const FIRST_MINUTE = 8 * 60;
+const LAST_MINUTE = 21 * 60;
+
+const dayLabelStyle: CSSProperties = {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: '0.65rem',
+    opacity: 0.7
+};
+
+/**
+ * A small Monday-Friday week with each meeting drawn as a coloured block;
+ * online meetings are faded as on the calendar
+ */
+export function MiniTimetable({ sections, getCourseColor, highlightedCrns, height = 160 }: MiniTimetableProps) {
+    const range = LAST_MINUTE - FIRST_MINUTE;
+
+    return (
+        <div>
+            <div style={{ display: 'flex' }}>
+                {WEEKDAYS.map(day => (
+                    <div key={day} style={dayLabelStyle}>{day.slice(0, 3)}</div>
+                ))}
+            </div>
+            <div style={{ display: 'flex', height, border: '1px solid #d8dee9', borderRadius: 4 }}>
+                {WEEKDAYS.map((day, dayIndex) => (
+                    <div
+                        key={day}
+                        style={{
+                            position: 'relative',
+                            flex: 1,
+                            borderLeft: dayIndex > 0 ? '1px solid #d8dee9' : undefined
+                        }}
+                    >
+                        {sections.flatMap(section => getSectionIntervals(section)
+                            .filter(interval => interval.day === dayIndex)
+                            .map(interval => (
+                                <div
+                                    key={`${section.crn}-${interval.start}`}
+                                    title={`${section.subject} ${section.courseCode} | CRN ${section.crn}`}
+                                    style={{
+                                        position: 'absolute',
+                                        left: 2,
+                                        right: 2,
+                                        top: `${Math.max(0, interval.start - FIRST_MINUTE) / range * 100}%`,
+                                        height: `${(Math.min(interval.end, LAST_MINUTE) - Math.max(interval.start, FIRST_MINUTE)) / range * 100}%`,
+                                        backgroundColor: getCourseColor(`${section.subject}${section.courseCode}`),
+                                        opacity: interval.isOnline ? 0.6 : 1,
+                                        borderRadius: 2,
+                                        outline: highlightedCrns?.has(section.crn) ? `2px solid ${NORD_COLORS.darkText}` : undefined
+                                    }}
+                                />
+                            )))}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
\ No newline at end of file
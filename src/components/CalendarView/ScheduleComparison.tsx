@@ -0,0 +1,169 @@
+import { useMemo } from 'react';
+import { Modal, Table, Text, Group, Button, ActionIcon, Stack, Badge } from '@mantine/core';
+import { IconEye, IconX } from '@tabler/icons-react';
+import { useSchedule } from '../../context/scheduleContext';
+import { formatMeetingSummary } from '../../utilities/csvParser';
+import {
+    comparisonMetrics,
+    compareCourses,
+    getBestIndices,
+    getSectionsByCourse
+} from '../../utilities/scheduleComparison';
+import { COURSE_COLORS, NORD_COLORS } from './calendarColors';
+import { MiniTimetable } from './MiniTimetable';
+
+interface ScheduleComparisonProps {
+    opened: boolean;
+    onClose: () => void;
+}
+
+const DIFFERENCE_BACKGROUND = 'rgba(235, 203, 139, 0.3)';
+
+/**
+ * Shows the compared combinations side by side: a mini timetable of each, a
+ * table of summary metrics with the best values marked, and the sections of
+ * every course with the courses that differ highlighted.
+ */
+export function ScheduleComparison({ opened, onClose }: ScheduleComparisonProps) {
+    const { comparedCombinations, toggleCompared, clearCompared, selectCombinationById } = useSchedule();
+
+    const courses = useMemo(() => compareCourses(comparedCombinations), [comparedCombinations]);
+    const sectionsByCourse = useMemo(
+        () => comparedCombinations.map(getSectionsByCourse),
+        [comparedCombinations]
+    );
+
+    // Every course keeps one colour across all compared schedules
+    const getCourseColor = (courseId: string) => {
+        const index = courses.findIndex(course => course.courseId === courseId);
+        return COURSE_COLORS[Math.max(0, index) % COURSE_COLORS.length];
+    };
+
+    // Sections of the differing courses are outlined in the mini timetables
+    const differingCrns = useMemo(() => {
+        const differingCourses = new Set(courses.filter(course => course.differs).map(course => course.courseId));
+        return new Set(comparedCombinations.flatMap(combination =>
+            combination.sections
+                .filter(section => differingCourses.has(`${section.subject}${section.courseCode}`))
+                .map(section => section.crn)
+        ));
+    }, [courses, comparedCombinations]);
+
+    const handleShow = (id: string) => {
+        selectCombinationById(id);
+        onClose();
+    };
+
+    return (
+        <Modal opened={opened} onClose={onClose} title="Compare schedules" size="90%">
+            {comparedCombinations.length < 2 ? (
+                <Text size="sm" c="dimmed">
+                    Add at least two schedules to the comparison from the calendar view.
+                </Text>
+            ) : (
+                <Stack gap="md">
+                    <Table withColumnBorders layout="fixed">
+                        <Table.Thead>
+                            <Table.Tr>
+                                <Table.Th w="12rem" />
+                                {comparedCombinations.map(combination => (
+                                    <Table.Th key={combination.id}>
+                                        <Group justify="space-between" wrap="nowrap">
+                                            <Badge variant="outline" color="#81a1c1">{combination.id}</Badge>
+                                            <Group gap={0} wrap="nowrap">
+                                                <ActionIcon
+                                                    variant="subtle"
+                                                    onClick={() => handleShow(combination.id)}
+                                                    aria-label="Show on calendar"
+                                                >
+                                                    <IconEye size={16} />
+                                                </ActionIcon>
+                                                <ActionIcon
+                                                    variant="subtle"
+                                                    color="#bf616a"
+                                                    onClick={() => toggleCompared(combination)}
+                                                    aria-label="Remove from comparison"
+                                                >
+                                                    <IconX size={16} />
+                                                </ActionIcon>
+                                            </Group>
+                                        </Group>
+                                    </Table.Th>
+                                ))}
+                            </Table.Tr>
+                        </Table.Thead>
+                        <Table.Tbody>
+                            <Table.Tr>
+                                <Table.Td><Text size="sm" fw={500}>Week</Text></Table.Td>
+                                {comparedCombinations.map(combination => (
+                                    <Table.Td key={combination.id}>
+                                        <MiniTimetable
+                                            sections={combination.sections}
+                                            getCourseColor={getCourseColor}
+                                            highlightedCrns={differingCrns}
+                                        />
+                                    </Table.Td>
+                                ))}
+                            </Table.Tr>
+                            {comparisonMetrics.map(metric => {
+                                const bestIndices = getBestIndices(comparedCombinations, metric);
+                                return (
+                                    <Table.Tr key={metric.label}>
+                                        <Table.Td><Text size="sm" fw={500}>{metric.label}</Text></Table.Td>
+                                        {comparedCombinations.map((combination, index) => (
+                                            <Table.Td key={combination.id}>
+                                                <Text
+                                                    size="sm"
+                                                    fw={bestIndices.has(index) ? 700 : 400}
+                                                    c={bestIndices.has(index) ? NORD_COLORS.green : undefined}
+                                                >
+                                                    {metric.format(metric.getValue(combination))}
+                                                </Text>
+                                            </Table.Td>
+                                        ))}
+                                    </Table.Tr>
+                                );
+                            })}
+                            {courses.map(({ courseId, differs }) => (
+                                <Table.Tr
+                                    key={courseId}
+                                    style={differs ? { backgroundColor: DIFFERENCE_BACKGROUND } : undefined}
+                                >
+                                    <Table.Td>
+                                        <Group gap="xs" wrap="nowrap">
+                                            <div style={{ width: 10, height: 10, flexShrink: 0, backgroundColor: getCourseColor(courseId) }} />
+                                            <Text size="sm" fw={500}>{courseId}</Text>
+                                        </Group>
+                                    </Table.Td>
+                                    {sectionsByCourse.map((courseSections, index) => {
+                                        const sections = courseSections.get(courseId) ?? [];
+                                        return (
+                                            <Table.Td key={comparedCombinations[index].id}>
+                                                {sections.length === 0 ? (
+                                                    <Text size="xs" c="dimmed">Not included</Text>
+                                                ) : sections.map(section => (
+                                                    <Text key={section.crn} size="xs">
+                                                        <b>CRN {section.crn}</b>
+                                                        {section.component && ` ${section.component}`}: {formatMeetingSummary(section)}
+                                                    </Text>
+                                                ))}
+                                            </Table.Td>
+                                        );
+                                    })}
+                                </Table.Tr>
+                            ))}
+                        </Table.Tbody>
+                    </Table>
+                    <Group justify="space-between">
+                        <Text size="xs" c="dimmed">
+                            Highlighted courses use different sections between the schedules; best values are in green.
+                        </Text>
+                        <Button variant="subtle" color="#bf616a" size="xs" onClick={clearCompared}>
+                            Clear comparison
+                        </Button>
+                    </Group>
+                </Stack>
+            )}
+        </Modal>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { Group, Badge, TextInput, Text, UnstyledButton, Tooltip } from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { IconSearch } from '@tabler/icons-react';
+import { useSchedule } from '../../context/scheduleContext';
+import type { ScheduleCombination } from '../../utilities/scheduleGenerator';
+
+interface ScheduleIdBarProps {
+    combination: ScheduleCombination;
+}
+
+export function ScheduleIdBar({ combination }: ScheduleIdBarProps) {
+    const { selectCombinationById } = useSchedule();
+    const [searchId, setSearchId] = useState('');
+
+    const handleCopyId = () => {
+        navigator.clipboard.writeText(combination.id).then(() => {
+            notifications.show({
+                title: 'Schedule ID Copied!',
+                message: `Share ${combination.id} so others can find this schedule`,
+                color: 'green',
+                autoClose: 2000,
+            });
+        }).catch(() => {
+            notifications.show({
+                title: 'Failed to copy',
+                message: 'Could not copy the schedule ID to clipboard',
+                color: 'red',
+            });
+        });
+    };
+
+    const handleSearch = () => {
+        if (!searchId.trim()) return;
+        if (selectCombinationById(searchId)) {
+            setSearchId('');
+        } else {
+            notifications.show({
+                title: 'Schedule not found',
+                message: `No generated schedule has the ID ${searchId.trim().toUpperCase()}`,
+                color: 'red',
+                autoClose: 2000,
+            });
+        }
+    };
+
+    return (
+        <Group gap="sm">
+            <Text size="sm" c="dimmed">Schedule ID</Text>
+            <Tooltip label="Copy ID">
+                <UnstyledButton onClick={handleCopyId}>
+                    <Badge variant="outline" color="#81a1c1" style={{ cursor: 'pointer' }}>
+                        {combination.id}
+                    </Badge>
+                </UnstyledButton>
+            </Tooltip>
+            <TextInput
+                size="xs"
+                w="12rem"
+                placeholder="Go to schedule ID"
+                leftSection={<IconSearch size={14} />}
+                value={searchId}
+                onChange={(event) => setSearchId(event.currentTarget.value)}
+                onKeyDown={(event) => event.key === 'Enter' && handleSearch()}
+            />
+        </Group>
+    );
+}
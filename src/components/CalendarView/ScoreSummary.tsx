@@ -0,0 +1,43 @@
+import { Popover, Badge, Table, Text, UnstyledButton } from '@mantine/core';
+import type { ScoreCriterion } from '../../types/filters';
+import { scoreCriterionLabels } from '../../types/filters';
+import type { ScheduleCombination } from '../../utilities/scheduleGenerator';
+
+interface ScoreSummaryProps {
+    combination: ScheduleCombination;
+}
+
+// Penalties are negative, everything else is shown with an explicit plus sign
+const formatContribution = (value: number): string => {
+    return `${value < 0 ? '' : '+'}${value.toFixed(1)}`;
+};
+
+export function ScoreSummary({ combination }: ScoreSummaryProps) {
+    const criteria = (Object.keys(combination.scoreBreakdown) as ScoreCriterion[])
+        .sort((a, b) => combination.scoreBreakdown[b] - combination.scoreBreakdown[a]);
+
+    return (
+        <Popover width={300} position="bottom" withArrow shadow="md">
+            <Popover.Target>
+                <UnstyledButton>
+                    <Badge variant="light" color="#81a1c1" style={{ cursor: 'pointer' }}>
+                        Score {combination.score.toFixed(1)}
+                    </Badge>
+                </UnstyledButton>
+            </Popover.Target>
+            <Popover.Dropdown>
+                <Text size="sm" fw={500} mb="xs">Why this schedule ranks here</Text>
+                <Table>
+                    <Table.Tbody>
+                        {criteria.map(criterion => (
+                            <Table.Tr key={criterion}>
+                                <Table.Td>{scoreCriterionLabels[criterion]}</Table.Td>
+                                <Table.Td ta="right">{formatContribution(combination.scoreBreakdown[criterion])}</Table.Td>
+                            </Table.Tr>
+                        ))}
+                    </Table.Tbody>
+                </Table>
+            </Popover.Dropdown>
+        </Popover>
+    );
+}
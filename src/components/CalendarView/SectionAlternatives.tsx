@@ -0,0 +1,173 @@
+import { useMemo } from 'react';
+import { Drawer, Stack, Group, Paper, Text, Badge, Button, ScrollArea } from '@mantine/core';
+import { IconArrowsExchange } from '@tabler/icons-react';
+import { useSchedule } from '../../context/scheduleContext';
+import { useFilters } from '../../context/filterContext';
+import { useConstraints } from '../../context/useConstraints';
+import { findSectionAlternatives, type ScheduleCombination } from '../../utilities/scheduleGenerator';
+import type { ScheduleMetrics } from '../../utilities/scheduleScoring';
+import { formatMeetingSummary, type CourseSection } from '../../utilities/csvParser';
+import { minutesToTime } from '../../utilities/timeUtils';
+
+interface SectionAlternativesProps {
+    courseId: string | null;
+    onClose: () => void;
+    onPreview: (combination: ScheduleCombination | null) => void;
+}
+
+// Metrics worth calling out when a swap changes them, with how to show each value
+const previewMetrics: Array<{ key: keyof ScheduleMetrics; label: string; format: (value: number) => string }> = [
+    { key: 'activeDays', label: 'Days with class', format: String },
+    { key: 'campusDays', label: 'Days on campus', format: String },
+    { key: 'totalGapMinutes', label: 'Gaps', format: value => `${Math.round(value / 6) / 10} h` },
+    { key: 'earliestStart', label: 'Earliest start', format: minutesToTime },
+    { key: 'latestEnd', label: 'Latest end', format: minutesToTime },
+    { key: 'travelViolations', label: 'Rushed transfers', format: String }
+];
+
+const getCourseId = (section: CourseSection) => `${section.subject}${section.courseCode}`;
+
+const describeSections = (sections: CourseSection[]): string => {
+    return sections
+        .map(section => `${section.component ? `${section.component} ` : ''}CRN ${section.crn}: ${formatMeetingSummary(section)}`)
+        .join('\n');
+};
+
+interface AlternativeCardProps {
+    alternative: ScheduleCombination;
+    current: ScheduleCombination;
+    courseId: string;
+    onSelect: () => void;
+    onPreview: (combination: ScheduleCombination | null) => void;
+}
+
+function AlternativeCard({ alternative, current, courseId, onSelect, onPreview }: AlternativeCardProps) {
+    const isCurrent = alternative.id === current.id;
+    const scoreChange = alternative.score - current.score;
+    const sections = alternative.sections.filter(section => getCourseId(section) === courseId);
+    const changedMetrics = previewMetrics.filter(({ key }) => alternative.metrics[key] !== current.metrics[key]);
+
+    return (
+        <Paper
+            withBorder
+            p="sm"
+            radius="md"
+            onMouseEnter={() => onPreview(isCurrent ? null : alternative)}
+            onMouseLeave={() => onPreview(null)}
+        >
+            <Stack gap={4}>
+                <Group justify="space-between">
+                    <Text size="sm" fw={500}>
+                        CRN {sections.map(section => section.crn).join(', ')}
+                    </Text>
+                    {isCurrent ? (
+                        <Badge variant="light" color="gray">Current</Badge>
+                    ) : (
+                        <Badge variant="light" color={scoreChange >= 0 ? 'green' : 'red'}>
+                            {scoreChange >= 0 ? '+' : ''}{scoreChange.toFixed(1)} score
+                        </Badge>
+                    )}
+                </Group>
+                <Text size="xs" style={{ whiteSpace: 'pre-line' }}>
+                    {describeSections(sections)}
+                </Text>
+                {!isCurrent && changedMetrics.length > 0 && (
+                    <Text size="xs" c="dimmed">
+                        {changedMetrics
+                            .map(({ key, label, format }) =>
+                                `${label}: ${format(current.metrics[key])} → ${format(alternative.metrics[key])}`
+                            )
+                            .join(' · ')}
+                    </Text>
+                )}
+                {!isCurrent && (
+                    <Group justify="flex-end">
+                        <Button
+                            size="xs"
+                            variant="light"
+                            color="#5e81ac"
+                            leftSection={<IconArrowsExchange size={14} />}
+                            onClick={onSelect}
+                        >
+                            Swap in
+                        </Button>
+                    </Group>
+                )}
+            </Stack>
+        </Paper>
+    );
+}
+
+/**
+ * Lists every other way to take one course that fits around the rest of the
+ * shown schedule. Hovering an alternative previews it on the calendar, and
+ * swapping it in shows it as a custom combination.
+ */
+export function SectionAlternatives({ courseId, onClose, onPreview }: SectionAlternativesProps) {
+    const { currentCombination, sourceSections, showCustomCombination } = useSchedule();
+    const { filters } = useFilters();
+    const { excludedCrns, pinnedCrns } = useConstraints();
+
+    // Swaps that would drop a pinned section are left out
+    const alternatives = useMemo(() => {
+        if (!courseId || !currentCombination) return [];
+        return findSectionAlternatives(
+            sourceSections, currentCombination.sections, courseId, filters, excludedCrns, pinnedCrns
+        );
+    }, [courseId, currentCombination, sourceSections, filters, excludedCrns, pinnedCrns]);
+
+    const hasPinnedSection = currentCombination?.sections.some(section =>
+        getCourseId(section) === courseId && pinnedCrns.has(section.crn)
+    ) ?? false;
+
+    const courseLabel = useMemo(() => {
+        const section = currentCombination?.sections.find(candidate => getCourseId(candidate) === courseId);
+        return section ? `${section.subject} ${section.courseCode} ${section.courseName}` : courseId;
+    }, [currentCombination, courseId]);
+
+    const handleClose = () => {
+        onPreview(null);
+        onClose();
+    };
+
+    const handleSelect = (alternative: ScheduleCombination) => {
+        onPreview(null);
+        showCustomCombination(alternative);
+    };
+
+    const otherCount = alternatives.filter(alternative => alternative.id !== currentCombination?.id).length;
+
+    return (
+        <Drawer
+            opened={courseId !== null && currentCombination !== null}
+            onClose={handleClose}
+            position="right"
+            size="md"
+            withOverlay={false}
+            title={<Text fw={500}>Alternatives for {courseLabel}</Text>}
+            scrollAreaComponent={ScrollArea.Autosize}
+        >
+            {currentCombination && courseId && (
+                <Stack gap="sm">
+                    <Text size="sm" c="dimmed">
+                        {otherCount === 0
+                            ? 'No other section fits around the rest of this schedule with the current filters.'
+                            : `${otherCount} other option${otherCount === 1 ? '' : 's'} fit around the rest of this schedule. ` +
+                                'Hover one to preview it on the calendar.'}
+                        {hasPinnedSection && ' Only options that keep the pinned sections are listed.'}
+                    </Text>
+                    {alternatives.map(alternative => (
+                        <AlternativeCard
+                            key={alternative.id}
+                            alternative={alternative}
+                            current={currentCombination}
+                            courseId={courseId}
+                            onSelect={() => handleSelect(alternative)}
+                            onPreview={onPreview}
+                        />
+                    ))}
+                </Stack>
+            )}
+        </Drawer>
+    );
+}
\ No newline at end of file
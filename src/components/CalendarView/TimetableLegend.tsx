@@ -0,0 +1,31 @@
+import { Group, Stack, Text } from '@mantine/core';
+import type { ScheduleCombination } from '../../utilities/scheduleGenerator';
+
+interface TimetableLegendProps {
+    combination: ScheduleCombination;
+    courseColors: string[];
+}
+
+// Courses with their colour and CRNs, plus how online meetings are drawn
+export function TimetableLegend({ combination, courseColors }: TimetableLegendProps) {
+    const courses = new Map<string, { label: string; crns: string[] }>();
+    combination.sections.forEach(section => {
+        const key = `${section.subject}${section.courseCode}`;
+        if (!courses.has(key)) {
+            courses.set(key, { label: `${section.subject} ${section.courseCode} - ${section.courseName}`, crns: [] });
+        }
+        courses.get(key)?.crns.push(section.component ? `${section.crn} (${section.component})` : section.crn);
+    });
+
+    return (
+        <Stack gap={4}>
+            {Array.from(courses.values()).map(({ label, crns }, index) => (
+                <Group key={label} gap="xs">
+                    <div style={{ width: 12, height: 12, backgroundColor: courseColors[index % courseColors.length] }} />
+                    <Text size="sm">{label} | CRN {crns.join(', ')}</Text>
+                </Group>
+            ))}
+            <Text size="sm" c="dimmed">Online meetings are shown faded; all others are in person.</Text>
+        </Stack>
+    );
+}
\ No newline at end of file
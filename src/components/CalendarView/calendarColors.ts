@@ -0,0 +1,22 @@
+export const NORD_COLORS = {
+    purple: '#b48ead',
+    green: '#a3be8c',
+    red: '#bf616a',
+    blue: '#88c0d0',
+    yellow: '#ebcb8b',
+    darkBg: '#2e3440',
+    darkBg2: '#3b4252',
+    lightBg: '#eceff4',
+    lightBg2: '#e5e9f0',
+    darkText: '#2e3440',
+    lightText: '#eceff4',
+};
+
+// Courses take these in turn, in the order they first appear in a schedule
+export const COURSE_COLORS = [
+    NORD_COLORS.purple,
+    NORD_COLORS.green,
+    NORD_COLORS.red,
+    NORD_COLORS.blue,
+    NORD_COLORS.yellow
+];
\ No newline at end of file
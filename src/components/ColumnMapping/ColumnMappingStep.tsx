@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { Stack, Select, Button, Group, Text, Alert } from '@mantine/core';
+import { IconColumns } from '@tabler/icons-react';
+import {
+    getColumnLabel,
+    type ColumnDetectionResult,
+    type ColumnKey,
+    type ColumnMapping
+} from '../../utilities/columnMapping';
+
+interface ColumnMappingStepProps {
+    columns: ColumnDetectionResult;
+    onApply: (mapping: ColumnMapping) => void;
+}
+
+export function ColumnMappingStep({ columns, onApply }: ColumnMappingStepProps) {
+    const [assignments, setAssignments] = useState<ColumnMapping>({});
+
+    const assignedColumns = new Set(Object.values(assignments));
+    const isComplete = columns.missing.every(field => assignments[field] !== undefined);
+
+    const handleAssign = (field: ColumnKey, value: string | null) => {
+        setAssignments(prev => {
+            const next = { ...prev };
+            if (value === null) {
+                delete next[field];
+            } else {
+                next[field] = Number(value);
+            }
+            return next;
+        });
+    };
+
+    const handleApply = () => {
+        onApply({ ...columns.mapping, ...assignments });
+    };
+
+    return (
+        <Alert icon={<IconColumns size={16} />} title="Map Columns" color="yellow">
+            <Stack gap="sm">
+                <Text size="sm">
+                    Some required columns could not be found automatically.
+                    Pick which column in your file holds each of them.
+                </Text>
+                {columns.missing.map(field => (
+                    <Select
+                        key={field}
+                        label={getColumnLabel(field)}
+                        placeholder="Select a column"
+                        clearable
+                        data={columns.unrecognized.map(index => ({
+                            label: columns.headers[index] || `Column ${index + 1}`,
+                            value: String(index),
+                            disabled: assignedColumns.has(index) && assignments[field] !== index
+                        }))}
+                        value={assignments[field] !== undefined ? String(assignments[field]) : null}
+                        onChange={(value) => handleAssign(field, value)}
+                    />
+                ))}
+                <Group justify="flex-end">
+                    <Button onClick={handleApply} disabled={!isComplete} variant="light">
+                        Apply Mapping
+                    </Button>
+                </Group>
+            </Stack>
+        </Alert>
+    );
+}
@@ -10,64 +10,130 @@ import {
     Button,
     Accordion,
     Switch,
+    Collapse,
+    SegmentedControl,
     useMantineColorScheme,
 } from '@mantine/core';
 import { notifications } from '@mantine/notifications';
-import { IconUpload, IconAlertCircle, IconCalendar, IconFilter, IconCheck, IconX } from '@tabler/icons-react';
-import { parseCourseCsv, type CourseSection } from '../../utilities/csvParser';
-import { generateNonConflictingSchedules } from '../../utilities/scheduleGenerator';
+import { IconUpload, IconAlertCircle, IconCalendar, IconFilter, IconCheck, IconX, IconPlayerStop, IconChevronDown, IconChevronUp } from '@tabler/icons-react';
+import { parseCourseCsv, type CourseSection, type ParseMode, type ValidationResult } from '../../utilities/csvParser';
+import { isErrorDiagnostic, type ParseDiagnostic } from '../../utilities/parseDiagnostics';
+import type { ColumnDetectionResult, ColumnMapping } from '../../utilities/columnMapping';
 import { useSchedule } from '../../context/scheduleContext';
 import { useFilters } from '../../context/filterContext';
+import { useScheduleGenerator } from '../../hooks/useScheduleGenerator';
+import { useConstraints } from '../../context/useConstraints';
 import { ScheduleFilters } from '../Filters/ScheduleFilters';
+import { ColumnMappingStep } from '../ColumnMapping/ColumnMappingStep';
+import { DiagnosticsTable } from '../Diagnostics/DiagnosticsTable';
+import { SectionList } from '../SectionList/SectionList';
+import { CourseLoadInputs } from '../CourseLoad/CourseLoadInputs';
+import { ScheduleDiagnosticsReport } from '../Diagnostics/ScheduleDiagnosticsReport';
+import type { ScheduleDiagnostics } from '../../utilities/scheduleDiagnostics';
 
 function ConfigView() {
     const { colorScheme } = useMantineColorScheme();
     const isDark = colorScheme === 'dark';
     const { setScheduleResults } = useSchedule();
     const { filters, toggleFilters } = useFilters();
+    const { generate, cancel, isGenerating, progress, diagnosticsProgress } = useScheduleGenerator();
+    const {
+        pinnedCrns,
+        excludedCrns,
+        optionalCourseIds,
+        courseLoad,
+        toggleCourseOptional,
+        clearConstraints
+    } = useConstraints();
 
     const [file, setFile] = useState<File | null>(null);
+    const [fileContent, setFileContent] = useState<string | null>(null);
+    const [unmappedColumns, setUnmappedColumns] = useState<ColumnDetectionResult | null>(null);
+    const [columnMapping, setColumnMapping] = useState<ColumnMapping | undefined>(undefined);
+    const [parseMode, setParseMode] = useState<ParseMode>('strict');
     const [parsedCourses, setParsedCourses] = useState<CourseSection[] | null>(null);
+    const [diagnostics, setDiagnostics] = useState<ParseDiagnostic[]>([]);
+    const [skippedLineCount, setSkippedLineCount] = useState(0);
     const [parseErrors, setParseErrors] = useState<string[]>([]);
     const [selectedCourses, setSelectedCourses] = useState<Set<string>>(new Set());
-    const [isGenerating, setIsGenerating] = useState(false);
+    const [expandedCourses, setExpandedCourses] = useState<Set<string>>(new Set());
+    const [scheduleDiagnostics, setScheduleDiagnostics] = useState<{
+        diagnostics: ScheduleDiagnostics;
+        hasResults: boolean;
+    } | null>(null);
     const [accordionValue, setAccordionValue] = useState<string | null>("filters");
 
+    const applyParseResult = useCallback((result: ValidationResult) => {
+        setDiagnostics(result.diagnostics);
+        setSkippedLineCount(new Set(result.skippedLines).size);
+        setParseErrors([]);
+
+        if (result.isValid && result.data) {
+            setParsedCourses(result.data);
+            setUnmappedColumns(null);
+            const uniqueCourseIds = new Set(
+                result.data.map(course => `${course.subject}${course.courseCode}`)
+            );
+            setSelectedCourses(uniqueCourseIds);
+        } else {
+            setParsedCourses(null);
+            setUnmappedColumns(result.columns && result.columns.missing.length > 0 ? result.columns : null);
+            setSelectedCourses(new Set());
+        }
+        setScheduleResults(null);
+        setScheduleDiagnostics(null);
+    }, [setScheduleResults]);
+
     const handleFileChange = useCallback(async (file: File | null) => {
         if (!file) {
             setParsedCourses(null);
             setParseErrors([]);
+            setDiagnostics([]);
+            setSkippedLineCount(0);
             setFile(null);
+            setFileContent(null);
+            setUnmappedColumns(null);
+            setColumnMapping(undefined);
             setSelectedCourses(new Set());
+            setExpandedCourses(new Set());
+            clearConstraints();
             setScheduleResults(null);
+            setScheduleDiagnostics(null);
             return;
         }
 
         setFile(file);
+        setColumnMapping(undefined);
+        setExpandedCourses(new Set());
+        clearConstraints();
         try {
             const content = await file.text();
-            const result = parseCourseCsv(content);
-
-            if (result.isValid && result.data) {
-                setParsedCourses(result.data);
-                setParseErrors([]);
-                const uniqueCourseIds = new Set(
-                    result.data.map(course => `${course.subject}${course.courseCode}`)
-                );
-                setSelectedCourses(uniqueCourseIds);
-            } else {
-                setParsedCourses(null);
-                setParseErrors(result.errors);
-                setSelectedCourses(new Set());
-            }
-            setScheduleResults(null);
+            setFileContent(content);
+            applyParseResult(parseCourseCsv(content, { mode: parseMode }));
         } catch (error) {
             setParsedCourses(null);
             setParseErrors(['Failed to read file content']);
+            setDiagnostics([]);
+            setSkippedLineCount(0);
+            setFileContent(null);
+            setUnmappedColumns(null);
             setSelectedCourses(new Set());
             setScheduleResults(null);
+            setScheduleDiagnostics(null);
         }
-    }, [setScheduleResults]);
+    }, [applyParseResult, parseMode, clearConstraints, setScheduleResults]);
+
+    const handleApplyColumnMapping = useCallback((mapping: ColumnMapping) => {
+        if (fileContent === null) return;
+        setColumnMapping(mapping);
+        applyParseResult(parseCourseCsv(fileContent, { columnMapping: mapping, mode: parseMode }));
+    }, [fileContent, parseMode, applyParseResult]);
+
+    const handleParseModeChange = useCallback((mode: ParseMode) => {
+        setParseMode(mode);
+        if (fileContent === null) return;
+        applyParseResult(parseCourseCsv(fileContent, { columnMapping, mode }));
+    }, [fileContent, columnMapping, applyParseResult]);
 
     const toggleCourseSelection = useCallback((courseIdentifier: string) => {
         setSelectedCourses(prev => {
@@ -82,19 +148,48 @@ function ConfigView() {
         setScheduleResults(null);
     }, [setScheduleResults]);
 
-    const handleGenerateSchedules = useCallback(() => {
+    const toggleCourseExpanded = useCallback((courseIdentifier: string) => {
+        setExpandedCourses(prev => {
+            const next = new Set(prev);
+            if (next.has(courseIdentifier)) {
+                next.delete(courseIdentifier);
+            } else {
+                next.add(courseIdentifier);
+            }
+            return next;
+        });
+    }, []);
+
+    const handleGenerateSchedules = useCallback(async () => {
         if (!parsedCourses) return;
 
-        setIsGenerating(true);
+        setScheduleResults(null);
+        setScheduleDiagnostics(null);
         try {
-            const results = generateNonConflictingSchedules(
+            const results = await generate(
                 parsedCourses,
                 selectedCourses,
-                filters
+                filters,
+                {
+                    pinnedCrns,
+                    excludedCrns,
+                    requiredCourseIds: new Set([...selectedCourses].filter(id => !optionalCourseIds.has(id))),
+                    courseLoad
+                }
             );
 
-            if (results.combinations.length > 0) {
-                setScheduleResults(results);
+            if (!results) {
+                notifications.show({
+                    title: 'Generation Cancelled',
+                    message: 'Showing the schedules found before cancelling, if any',
+                    color: 'yellow',
+                    withBorder: true,
+                    autoClose: 2000,
+                });
+            } else if (results.combinations.length > 0) {
+                if (results.diagnostics) {
+                    setScheduleDiagnostics({ diagnostics: results.diagnostics, hasResults: true });
+                }
                 notifications.show({
                     title: 'Success!',
                     message: `Generated ${results.combinations.length} possible schedules`,
@@ -104,11 +199,13 @@ function ConfigView() {
                     autoClose: 2000,
                 });
             } else {
-                setParseErrors(['No valid schedule combinations found with the current filters']);
                 setScheduleResults(null);
+                if (results.diagnostics) {
+                    setScheduleDiagnostics({ diagnostics: results.diagnostics, hasResults: false });
+                }
                 notifications.show({
                     title: 'No Schedules Found',
-                    message: 'Try adjusting your course selection or filters',
+                    message: 'See the report below for what to change',
                     color: 'red',
                     icon: <IconX size="1.1rem" />,
                     withBorder: true,
@@ -127,10 +224,28 @@ function ConfigView() {
                 withBorder: true,
                 autoClose: 2000,
             });
-        } finally {
-            setIsGenerating(false);
         }
-    }, [parsedCourses, selectedCourses, filters, setScheduleResults]);
+    }, [
+        parsedCourses,
+        selectedCourses,
+        filters,
+        pinnedCrns,
+        excludedCrns,
+        optionalCourseIds,
+        courseLoad,
+        generate,
+        setScheduleResults
+    ]);
+
+    const courseLabels = useMemo(() => {
+        const labels = new Map<string, string>();
+        parsedCourses?.forEach(course => {
+            labels.set(`${course.subject}${course.courseCode}`, `${course.subject} ${course.courseCode}`);
+        });
+        return labels;
+    }, [parsedCourses]);
+
+    const getCourseLabel = useCallback((courseId: string) => courseLabels.get(courseId) ?? courseId, [courseLabels]);
 
     const ErrorDisplay = useMemo(() => {
         if (parseErrors.length === 0) return null;
@@ -146,19 +261,35 @@ function ConfigView() {
         );
     }, [parseErrors]);
 
+    const DiagnosticsDisplay = useMemo(() => {
+        if (diagnostics.length === 0) return null;
+
+        const hasErrors = diagnostics.some(isErrorDiagnostic);
+        let title = 'Import Warnings';
+        if (hasErrors && parsedCourses) {
+            title = `Skipped ${skippedLineCount} invalid row${skippedLineCount === 1 ? '' : 's'}`;
+        } else if (hasErrors) {
+            title = 'Validation Errors';
+        }
+
+        return <DiagnosticsTable diagnostics={diagnostics} title={title} />;
+    }, [diagnostics, parsedCourses, skippedLineCount]);
+
     const CourseList = useMemo(() => {
         if (!parsedCourses || parsedCourses.length === 0) return null;
 
-        const uniqueCoursesMap = new Map<string, { id: string; label: string }>();
+        const uniqueCoursesMap = new Map<string, { id: string; label: string; sections: CourseSection[] }>();
 
         parsedCourses.forEach(course => {
             const courseId = `${course.subject}${course.courseCode}`;
             if (!uniqueCoursesMap.has(courseId)) {
                 uniqueCoursesMap.set(courseId, {
                     id: courseId,
-                    label: `${course.courseName} (${course.subject} ${course.courseCode})`
+                    label: `${course.courseName} (${course.subject} ${course.courseCode})`,
+                    sections: []
                 });
             }
+            uniqueCoursesMap.get(courseId)?.sections.push(course);
         });
 
         const uniqueCourses = Array.from(uniqueCoursesMap.values())
@@ -168,19 +299,59 @@ function ConfigView() {
             <Box>
                 <Text size="lg" fw={500} mb="md">Available Courses:</Text>
                 <Stack gap="xs">
-                    {uniqueCourses.map(({ id, label }) => (
-                        <Group key={id}>
-                            <Checkbox
-                                label={label}
-                                checked={selectedCourses.has(id)}
-                                onChange={() => toggleCourseSelection(id)}
-                            />
-                        </Group>
+                    {uniqueCourses.map(({ id, label, sections }) => (
+                        <Box key={id}>
+                            <Group justify="space-between">
+                                <Checkbox
+                                    label={label}
+                                    checked={selectedCourses.has(id)}
+                                    onChange={() => toggleCourseSelection(id)}
+                                />
+                                <Group gap="xs">
+                                    {selectedCourses.has(id) && (
+                                        <SegmentedControl
+                                            size="xs"
+                                            data={[
+                                                { label: 'Required', value: 'required' },
+                                                { label: 'Optional', value: 'optional' }
+                                            ]}
+                                            value={optionalCourseIds.has(id) ? 'optional' : 'required'}
+                                            onChange={() => toggleCourseOptional(id)}
+                                        />
+                                    )}
+                                    <Button
+                                        variant="subtle"
+                                        size="compact-sm"
+                                        color={isDark ? "#88c0d0" : "#5e81ac"}
+                                        rightSection={expandedCourses.has(id)
+                                            ? <IconChevronUp size={14} />
+                                            : <IconChevronDown size={14} />}
+                                        onClick={() => toggleCourseExpanded(id)}
+                                    >
+                                        {sections.length} section{sections.length === 1 ? '' : 's'}
+                                    </Button>
+                                </Group>
+                            </Group>
+                            <Collapse in={expandedCourses.has(id)}>
+                                <Box pl="xl">
+                                    <SectionList sections={sections} />
+                                </Box>
+                            </Collapse>
+                        </Box>
                     ))}
                 </Stack>
             </Box>
         );
-    }, [parsedCourses, selectedCourses, toggleCourseSelection]);
+    }, [
+        parsedCourses,
+        selectedCourses,
+        expandedCourses,
+        optionalCourseIds,
+        isDark,
+        toggleCourseSelection,
+        toggleCourseExpanded,
+        toggleCourseOptional
+    ]);
 
     return (
         <Stack gap="md">
@@ -193,11 +364,28 @@ function ConfigView() {
                 onChange={handleFileChange}
                 description="Upload a CSV file containing course information"
             />
+            <Switch
+                label="Skip invalid rows and import the rest"
+                checked={parseMode === 'lenient'}
+                onChange={(event) => handleParseModeChange(event.currentTarget.checked ? 'lenient' : 'strict')}
+            />
             {ErrorDisplay}
+            {DiagnosticsDisplay}
+            {unmappedColumns && (
+                <ColumnMappingStep
+                    key={unmappedColumns.missing.join(',')}
+                    columns={unmappedColumns}
+                    onApply={handleApplyColumnMapping}
+                />
+            )}
             {CourseList}
 
             {parsedCourses && selectedCourses.size > 0 && (
                 <>
+                    <CourseLoadInputs
+                        selectedCount={selectedCourses.size}
+                        hasCreditData={parsedCourses.some(section => section.credits !== undefined)}
+                    />
                     <Accordion
                         value={accordionValue}
                         onChange={setAccordionValue}
@@ -215,22 +403,53 @@ function ConfigView() {
                                 </Group>
                             </Accordion.Control>
                             <Accordion.Panel>
-                                <ScheduleFilters />
+                                <ScheduleFilters sections={parsedCourses} />
                             </Accordion.Panel>
                         </Accordion.Item>
                     </Accordion>
 
-                    <Button
-                        leftSection={<IconCalendar size={14} />}
-                        onClick={handleGenerateSchedules}
-                        loading={isGenerating}
-                        color={isDark ? "#4c566a" : "#d8dee9"}
-                        c={isDark ? "#d8dee9" : "#4c566a"}
-                        variant="filled"
-                        radius="md"
-                    >
-                        Generate Possible Schedules
-                    </Button>
+                    <Group grow>
+                        <Button
+                            leftSection={<IconCalendar size={14} />}
+                            onClick={handleGenerateSchedules}
+                            loading={isGenerating}
+                            color={isDark ? "#4c566a" : "#d8dee9"}
+                            c={isDark ? "#d8dee9" : "#4c566a"}
+                            variant="filled"
+                            radius="md"
+                        >
+                            Generate Possible Schedules
+                        </Button>
+                        {isGenerating && (
+                            <Button
+                                leftSection={<IconPlayerStop size={14} />}
+                                onClick={cancel}
+                                color="red"
+                                variant="light"
+                                radius="md"
+                            >
+                                Cancel
+                            </Button>
+                        )}
+                    </Group>
+                    {isGenerating && diagnosticsProgress && (
+                        <Text size="sm" c="dimmed">
+                            Working out why some schedules are missing, {diagnosticsProgress.checksCompleted.toLocaleString()} checks so far
+                        </Text>
+                    )}
+                    {isGenerating && progress && !diagnosticsProgress && (
+                        <Text size="sm" c="dimmed">
+                            Explored {progress.branchesExplored.toLocaleString()} branches,
+                            found {progress.combinationsFound.toLocaleString()} combinations so far
+                        </Text>
+                    )}
+                    {scheduleDiagnostics && !isGenerating && (
+                        <ScheduleDiagnosticsReport
+                            diagnostics={scheduleDiagnostics.diagnostics}
+                            hasResults={scheduleDiagnostics.hasResults}
+                            getCourseLabel={getCourseLabel}
+                        />
+                    )}
                 </>
             )}
         </Stack>
@@ -0,0 +1,76 @@
+import { Group, NumberInput, Text, Stack } from '@mantine/core';
+import { useConstraints } from '../../context/useConstraints';
+import type { CourseLoadRange } from '../../utilities/scheduleGenerator';
+
+interface CourseLoadInputsProps {
+    selectedCount: number;
+    hasCreditData: boolean;
+}
+
+// NumberInput reports an empty field as '', which means "no limit"
+const toLimit = (value: string | number): number | undefined => {
+    return typeof value === 'number' ? value : undefined;
+};
+
+export function CourseLoadInputs({ selectedCount, hasCreditData }: CourseLoadInputsProps) {
+    const { courseLoad, setCourseLoad } = useConstraints();
+
+    const updateLimit = (key: keyof CourseLoadRange, value: string | number) => {
+        setCourseLoad({ ...courseLoad, [key]: toLimit(value) });
+    };
+
+    const hasInvalidCourseRange = courseLoad.minCourses !== undefined &&
+        courseLoad.maxCourses !== undefined &&
+        courseLoad.minCourses > courseLoad.maxCourses;
+    const hasInvalidCreditRange = courseLoad.minCredits !== undefined &&
+        courseLoad.maxCredits !== undefined &&
+        courseLoad.minCredits > courseLoad.maxCredits;
+
+    return (
+        <Stack gap="xs">
+            <Text size="sm" fw={500}>Course load:</Text>
+            <Group grow>
+                <NumberInput
+                    label="Min courses"
+                    placeholder="Any"
+                    min={1}
+                    max={selectedCount}
+                    allowDecimal={false}
+                    value={courseLoad.minCourses ?? ''}
+                    onChange={(value) => updateLimit('minCourses', value)}
+                    error={hasInvalidCourseRange && 'Min is above max'}
+                />
+                <NumberInput
+                    label="Max courses"
+                    placeholder="Any"
+                    min={1}
+                    max={selectedCount}
+                    allowDecimal={false}
+                    value={courseLoad.maxCourses ?? ''}
+                    onChange={(value) => updateLimit('maxCourses', value)}
+                />
+                {hasCreditData && (
+                    <NumberInput
+                        label="Min credits"
+                        placeholder="Any"
+                        min={0}
+                        decimalScale={1}
+                        value={courseLoad.minCredits ?? ''}
+                        onChange={(value) => updateLimit('minCredits', value)}
+                        error={hasInvalidCreditRange && 'Min is above max'}
+                    />
+                )}
+                {hasCreditData && (
+                    <NumberInput
+                        label="Max credits"
+                        placeholder="Any"
+                        min={0}
+                        decimalScale={1}
+                        value={courseLoad.maxCredits ?? ''}
+                        onChange={(value) => updateLimit('maxCredits', value)}
+                    />
+                )}
+            </Group>
+        </Stack>
+    );
+}
@@ -0,0 +1,100 @@
+import { useMemo, useState } from 'react';
+import { Table, ScrollArea, Badge, Group, Text, UnstyledButton, Code } from '@mantine/core';
+import { IconChevronDown, IconChevronUp, IconSelector } from '@tabler/icons-react';
+import type { ParseDiagnostic } from '../../utilities/parseDiagnostics';
+
+type SortKey = 'line' | 'severity' | 'code';
+
+interface DiagnosticsTableProps {
+    diagnostics: ParseDiagnostic[];
+    title: string;
+}
+
+const compareDiagnostics = (a: ParseDiagnostic, b: ParseDiagnostic, sortKey: SortKey): number => {
+    switch (sortKey) {
+        case 'line':
+            // Diagnostics without a line (file-level problems) come first
+            return (a.line ?? 0) - (b.line ?? 0);
+        case 'severity':
+            return a.severity.localeCompare(b.severity);
+        case 'code':
+            return a.code.localeCompare(b.code);
+    }
+};
+
+export function DiagnosticsTable({ diagnostics, title }: DiagnosticsTableProps) {
+    const [sortKey, setSortKey] = useState<SortKey>('line');
+    const [ascending, setAscending] = useState(true);
+
+    const sortedDiagnostics = useMemo(() => {
+        const sorted = [...diagnostics].sort((a, b) =>
+            compareDiagnostics(a, b, sortKey) || (a.line ?? 0) - (b.line ?? 0)
+        );
+        return ascending ? sorted : sorted.reverse();
+    }, [diagnostics, sortKey, ascending]);
+
+    const handleSort = (key: SortKey) => {
+        if (key === sortKey) {
+            setAscending(prev => !prev);
+        } else {
+            setSortKey(key);
+            setAscending(true);
+        }
+    };
+
+    const renderSortableHeader = (sortBy: SortKey, label: string) => {
+        const Icon = sortKey !== sortBy ? IconSelector : ascending ? IconChevronUp : IconChevronDown;
+        return (
+            <Table.Th>
+                <UnstyledButton onClick={() => handleSort(sortBy)}>
+                    <Group gap={4} wrap="nowrap">
+                        <Text size="sm" fw={600}>{label}</Text>
+                        <Icon size={14} />
+                    </Group>
+                </UnstyledButton>
+            </Table.Th>
+        );
+    };
+
+    if (diagnostics.length === 0) return null;
+
+    return (
+        <div>
+            <Text size="sm" fw={500} mb="xs">{title}</Text>
+            <ScrollArea.Autosize mah={240}>
+                <Table striped highlightOnHover stickyHeader>
+                    <Table.Thead>
+                        <Table.Tr>
+                            {renderSortableHeader('line', 'Line')}
+                            {renderSortableHeader('severity', 'Severity')}
+                            {renderSortableHeader('code', 'Code')}
+                            <Table.Th>Column</Table.Th>
+                            <Table.Th>Value</Table.Th>
+                            <Table.Th>Message</Table.Th>
+                        </Table.Tr>
+                    </Table.Thead>
+                    <Table.Tbody>
+                        {sortedDiagnostics.map((diagnostic, index) => (
+                            <Table.Tr key={`${diagnostic.line}-${diagnostic.code}-${index}`}>
+                                <Table.Td>{diagnostic.line ?? '—'}</Table.Td>
+                                <Table.Td>
+                                    <Badge
+                                        size="sm"
+                                        variant="light"
+                                        color={diagnostic.severity === 'error' ? 'red' : 'yellow'}
+                                    >
+                                        {diagnostic.severity}
+                                    </Badge>
+                                </Table.Td>
+                                <Table.Td><Code>{diagnostic.code}</Code></Table.Td>
+                                <Table.Td>{diagnostic.column ?? '—'}</Table.Td>
+                                <Table.Td>{diagnostic.value || '—'}</Table.Td>
+                                <Table.Td>{diagnostic.message}</Table.Td>
+                            </Table.Tr>
+                        ))}
+                    </Table.Tbody>
+                </Table>
+            </ScrollArea.Autosize>
+        </div>
+    );
+}
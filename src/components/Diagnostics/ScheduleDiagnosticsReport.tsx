@@ -0,0 +1,81 @@
+import { Alert, List, Stack, Text } from '@mantine/core';
+import { IconAlertCircle } from '@tabler/icons-react';
+import type { CombinationFilter } from '../../types/filters';
+import { combinationFilterLabels } from '../../types/filters';
+import {
+    formatSuggestion,
+    SUGGESTION_COUNT_LIMIT,
+    type ScheduleDiagnostics
+} from '../../utilities/scheduleDiagnostics';
+
+interface ScheduleDiagnosticsReportProps {
+    diagnostics: ScheduleDiagnostics;
+    hasResults: boolean;
+    getCourseLabel: (courseId: string) => string;
+}
+
+export function ScheduleDiagnosticsReport({ diagnostics, hasResults, getCourseLabel }: ScheduleDiagnosticsReportProps) {
+    const rejectingFilters = (Object.keys(diagnostics.filterRejections) as CombinationFilter[])
+        .filter(filter => diagnostics.filterRejections[filter] > 0);
+
+    return (
+        <Alert
+            icon={<IconAlertCircle size={16} />}
+            title={hasResults
+                ? `Some courses never fit: ${diagnostics.droppedCourses.map(getCourseLabel).join(', ')}`
+                : 'No valid schedule combinations found'}
+            color={hasResults ? 'yellow' : 'red'}
+        >
+            <Stack gap="xs">
+                {diagnostics.unavailableCourses.length > 0 && (
+                    <Text size="sm">
+                        No section of {diagnostics.unavailableCourses.map(getCourseLabel).join(', ')} passes
+                        the current filters, busy times and exclusions.
+                    </Text>
+                )}
+
+                {diagnostics.conflictingCourses.length > 0 && (
+                    <>
+                        <Text size="sm">These courses clash in every section pairing:</Text>
+                        <List size="sm">
+                            {diagnostics.conflictingCourses.map(([first, second]) => (
+                                <List.Item key={`${first}|${second}`}>
+                                    {getCourseLabel(first)} and {getCourseLabel(second)}
+                                </List.Item>
+                            ))}
+                        </List>
+                    </>
+                )}
+
+                {rejectingFilters.length > 0 && (
+                    <>
+                        <Text size="sm">
+                            Of {diagnostics.candidatesChecked >= SUGGESTION_COUNT_LIMIT ? 'the first ' : ''}
+                            {diagnostics.candidatesChecked} conflict-free combinations, the filters removed:
+                        </Text>
+                        <List size="sm">
+                            {rejectingFilters.map(filter => (
+                                <List.Item key={filter}>
+                                    {combinationFilterLabels[filter]}: {diagnostics.filterRejections[filter]}
+                                </List.Item>
+                            ))}
+                        </List>
+                    </>
+                )}
+
+                {diagnostics.suggestions.length > 0 && (
+                    <>
+                        <Text size="sm" fw={500}>Any one of these changes would give results:</Text>
+                        <List size="sm">
+                            {diagnostics.suggestions.map(suggestion => (
+                                <List.Item key={`${suggestion.change}-${suggestion.target}`}>
+                                    {formatSuggestion(suggestion, getCourseLabel)}
+                                </List.Item>
+                            ))}
+                        </List>
+                    </>
+                )}
+            </Stack>
+        </Alert>
+    );
+}
@@ -1,10 +1,48 @@
-import { Stack, SegmentedControl, Title } from '@mantine/core';
+import { useMemo } from 'react';
+import {
+    Stack,
+    SegmentedControl,
+    Title,
+    MultiSelect,
+    Checkbox,
+    Slider,
+    Text,
+    SimpleGrid,
+    Group,
+    Select,
+    TextInput,
+    Switch,
+    ActionIcon,
+    Button
+} from '@mantine/core';
+import { IconPlus, IconTrash } from '@tabler/icons-react';
 import { useFilters } from '../../context/filterContext';
-import type { ScheduleFilters as ScheduleFiltersType } from '../../types/filters';
+import type { BusyBlock, ScheduleFilters as ScheduleFiltersType, ScoreCriterion } from '../../types/filters';
+import { MAX_SCORE_WEIGHT, scoreCriterionLabels } from '../../types/filters';
+import type { CourseSection } from '../../utilities/csvParser';
+import { createBusyBlock, isValidBusyBlock } from '../../utilities/busyBlocks';
+import { DAYS_OF_WEEK, type DayOfWeek } from '../../utilities/timeUtils';
+import { TimeWindowFilter } from './TimeWindowFilter';
+import { TravelBufferFilter } from './TravelBufferFilter';
 
-export function ScheduleFilters() {
+interface ScheduleFiltersProps {
+    sections: CourseSection[];
+}
+
+const uniqueValues = (values: Array<string | undefined>): string[] => {
+    return Array.from(new Set(values.filter((value): value is string => Boolean(value)))).sort();
+};
+
+export function ScheduleFilters({ sections }: ScheduleFiltersProps) {
     const { filters, setFilters } = useFilters();
 
+    const campuses = useMemo(() => uniqueValues(sections.map(section => section.campus)), [sections]);
+    const instructors = useMemo(() => uniqueValues(sections.map(section => section.instructor)), [sections]);
+    const hasSeatData = useMemo(
+        () => sections.some(section => section.capacity !== undefined && section.enrolled !== undefined),
+        [sections]
+    );
+
     const updateFilter = <K extends keyof ScheduleFiltersType>(
         key: K,
         value: ScheduleFiltersType[K]
@@ -12,6 +50,24 @@ export function ScheduleFilters() {
         setFilters({ ...filters, [key]: value });
     };
 
+    const updateWeight = (criterion: ScoreCriterion, value: number) => {
+        updateFilter('scoringWeights', { ...filters.scoringWeights, [criterion]: value });
+    };
+
+    const updateBusyBlock = (id: string, changes: Partial<BusyBlock>) => {
+        updateFilter('busyBlocks', filters.busyBlocks.map(block =>
+            block.id === id ? { ...block, ...changes } : block
+        ));
+    };
+
+    const addBusyBlock = () => {
+        updateFilter('busyBlocks', [...filters.busyBlocks, createBusyBlock('Monday', '09:00', '12:00')]);
+    };
+
+    const removeBusyBlock = (id: string) => {
+        updateFilter('busyBlocks', filters.busyBlocks.filter(block => block.id !== id));
+    };
+
     if (!filters.isEnabled) return null;
 
     return (
@@ -31,17 +87,7 @@ export function ScheduleFilters() {
                     onChange={(value) => updateFilter('deliveryMode', value as ScheduleFiltersType['deliveryMode'])}
                 />
 
-                <SegmentedControl
-                    fullWidth
-                    data={[
-                        { label: 'Any Time', value: 'any' },
-                        { label: 'Morning', value: 'morning' },
-                        { label: 'Afternoon', value: 'afternoon' },
-                        { label: 'Evening', value: 'evening' }
-                    ]}
-                    value={filters.timeOfDay}
-                    onChange={(value) => updateFilter('timeOfDay', value as ScheduleFiltersType['timeOfDay'])}
-                />
+                <TimeWindowFilter />
 
                 <SegmentedControl
                     fullWidth
@@ -57,14 +103,138 @@ export function ScheduleFilters() {
                 <SegmentedControl
                     fullWidth
                     data={[
-                        { label: 'Any Days', value: 'any' },
-                        { label: '1 Day Off', value: 'oneDay' },
-                        { label: '2 Days Off', value: 'twoDays' }
+                        { label: 'Any Days', value: '0' },
+                        { label: '1+ Weekdays Off', value: '1' },
+                        { label: '2+ Weekdays Off', value: '2' },
+                        { label: '3+ Weekdays Off', value: '3' }
                     ]}
-                    value={filters.daysOff}
-                    onChange={(value) => updateFilter('daysOff', value as ScheduleFiltersType['daysOff'])}
+                    value={String(filters.minDaysOff)}
+                    onChange={(value) => updateFilter('minDaysOff', Number(value))}
                 />
+
+                <MultiSelect
+                    label="Keep these days free"
+                    placeholder={filters.freeDays.length === 0 ? 'No specific days' : undefined}
+                    data={[...DAYS_OF_WEEK]}
+                    value={filters.freeDays}
+                    onChange={(value) => updateFilter(
+                        'freeDays',
+                        DAYS_OF_WEEK.filter(day => value.includes(day))
+                    )}
+                    clearable
+                />
+
+                {campuses.length > 0 && (
+                    <MultiSelect
+                        label="Campuses"
+                        placeholder={filters.campuses.length === 0 ? 'Any campus' : undefined}
+                        data={campuses}
+                        value={filters.campuses}
+                        onChange={(value) => updateFilter('campuses', value)}
+                        clearable
+                    />
+                )}
+
+                {instructors.length > 0 && (
+                    <MultiSelect
+                        label="Avoid instructors"
+                        placeholder={filters.excludedInstructors.length === 0 ? 'No instructors excluded' : undefined}
+                        data={instructors}
+                        value={filters.excludedInstructors}
+                        onChange={(value) => updateFilter('excludedInstructors', value)}
+                        searchable
+                        clearable
+                    />
+                )}
+
+                {hasSeatData && (
+                    <Checkbox
+                        label="Only sections with open seats"
+                        checked={filters.openSeatsOnly}
+                        onChange={(event) => updateFilter('openSeatsOnly', event.currentTarget.checked)}
+                    />
+                )}
+            </Stack>
+
+            <Title order={6}>Busy times (work, commute, appointments):</Title>
+            <Stack gap="xs">
+                {filters.busyBlocks.map(block => (
+                    <Group key={block.id} gap="xs" align="flex-start" wrap="nowrap">
+                        <Select
+                            w="8rem"
+                            data={[...DAYS_OF_WEEK]}
+                            value={block.day}
+                            onChange={(value) => value && updateBusyBlock(block.id, { day: value as DayOfWeek })}
+                            allowDeselect={false}
+                        />
+                        <TextInput
+                            type="time"
+                            value={block.startTime}
+                            onChange={(event) => updateBusyBlock(block.id, { startTime: event.currentTarget.value })}
+                        />
+                        <TextInput
+                            type="time"
+                            value={block.endTime}
+                            onChange={(event) => updateBusyBlock(block.id, { endTime: event.currentTarget.value })}
+                            error={!isValidBusyBlock(block) && 'Ends before it starts'}
+                        />
+                        <TextInput
+                            style={{ flex: 1 }}
+                            placeholder="Label (optional)"
+                            value={block.label}
+                            onChange={(event) => updateBusyBlock(block.id, { label: event.currentTarget.value })}
+                        />
+                        <Switch
+                            mt={8}
+                            label={block.isHard ? 'Hard' : 'Soft'}
+                            checked={block.isHard}
+                            onChange={(event) => updateBusyBlock(block.id, { isHard: event.currentTarget.checked })}
+                        />
+                        <ActionIcon
+                            mt={4}
+                            variant="subtle"
+                            color="#bf616a"
+                            onClick={() => removeBusyBlock(block.id)}
+                            aria-label="Remove busy time"
+                        >
+                            <IconTrash size={16} />
+                        </ActionIcon>
+                    </Group>
+                ))}
+                <Group justify="space-between">
+                    <Text size="xs" c="dimmed">
+                        Hard busy times rule out overlapping sections; soft ones only lower the score.
+                    </Text>
+                    <Button
+                        variant="light"
+                        size="xs"
+                        color="#5e81ac"
+                        leftSection={<IconPlus size={14} />}
+                        onClick={addBusyBlock}
+                    >
+                        Add busy time
+                    </Button>
+                </Group>
             </Stack>
+
+            <Title order={6}>Travel time between classes:</Title>
+            <TravelBufferFilter sections={sections} />
+
+            <Title order={6}>Ranking weights (0 ignores a preference):</Title>
+            <SimpleGrid cols={2} spacing="lg" verticalSpacing="xs">
+                {(Object.keys(scoreCriterionLabels) as ScoreCriterion[]).map(criterion => (
+                    <Stack key={criterion} gap={2}>
+                        <Text size="sm">{scoreCriterionLabels[criterion]}</Text>
+                        <Slider
+                            min={0}
+                            max={MAX_SCORE_WEIGHT}
+                            step={1}
+                            value={filters.scoringWeights[criterion]}
+                            onChange={(value) => updateWeight(criterion, value)}
+                        />
+                    </Stack>
+                ))}
+            </SimpleGrid>
         </Stack>
     );
 }
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { Stack, Group, RangeSlider, SegmentedControl, Switch, Text } from '@mantine/core';
+import { useFilters } from '../../context/filterContext';
+import type { TimeWindow, TimeWindowStrictness } from '../../types/filters';
+import { TIME_WINDOW_BOUNDS } from '../../types/filters';
+import { DAYS_OF_WEEK, minutesToTime, type DayOfWeek } from '../../utilities/timeUtils';
+
+const SLIDER_STEP_MINUTES = 30;
+
+const formatLimit = (minutes: number): string => minutesToTime(minutes);
+
+const describeWindow = (window: TimeWindow): string => {
+    const after = window.earliestStart > TIME_WINDOW_BOUNDS.earliestStart
+        ? `no class before ${formatLimit(window.earliestStart)}`
+        : null;
+    const before = window.latestEnd < TIME_WINDOW_BOUNDS.latestEnd
+        ? `no class after ${formatLimit(window.latestEnd)}`
+        : null;
+    return [after, before].filter(Boolean).join(', ') || 'Any time';
+};
+
+interface TimeWindowSliderProps {
+    label: string;
+    window: TimeWindow;
+    onChange: (window: TimeWindow) => void;
+}
+
+function TimeWindowSlider({ label, window, onChange }: TimeWindowSliderProps) {
+    return (
+        <Stack gap={2}>
+            <Group justify="space-between">
+                <Text size="sm">{label}</Text>
+                <Text size="xs" c="dimmed">{describeWindow(window)}</Text>
+            </Group>
+            <RangeSlider
+                min={TIME_WINDOW_BOUNDS.earliestStart}
+                max={TIME_WINDOW_BOUNDS.latestEnd}
+                step={SLIDER_STEP_MINUTES}
+                minRange={SLIDER_STEP_MINUTES}
+                label={formatLimit}
+                value={[window.earliestStart, window.latestEnd]}
+                onChange={([earliestStart, latestEnd]) => onChange({ earliestStart, latestEnd })}
+            />
+        </Stack>
+    );
+}
+
+export function TimeWindowFilter() {
+    const { filters, setFilters } = useFilters();
+    const isPerDay = Object.keys(filters.dayTimeWindows).length > 0;
+
+    const togglePerDay = (enabled: boolean) => {
+        const dayTimeWindows: Partial<Record<DayOfWeek, TimeWindow>> = {};
+        if (enabled) {
+            DAYS_OF_WEEK.forEach(day => {
+                dayTimeWindows[day] = filters.timeWindow;
+            });
+        }
+        setFilters({ ...filters, dayTimeWindows });
+    };
+
+    const updateDayWindow = (day: DayOfWeek, window: TimeWindow) => {
+        setFilters({ ...filters, dayTimeWindows: { ...filters.dayTimeWindows, [day]: window } });
+    };
+
+    return (
+        <Stack gap="xs">
+            <Group justify="space-between">
+                <Text size="sm" fw={500}>Class hours:</Text>
+                <Group gap="md">
+                    <SegmentedControl
+                        size="xs"
+                        data={[
+                            { label: 'All meetings', value: 'all' },
+                            { label: 'Most meetings', value: 'majority' }
+                        ]}
+                        value={filters.timeWindowStrictness}
+                        onChange={(value) => setFilters({
+                            ...filters,
+                            timeWindowStrictness: value as TimeWindowStrictness
+                        })}
+                    />
+                    <Switch
+                        size="xs"
+                        label="Set per day"
+                        checked={isPerDay}
+                        onChange={(event) => togglePerDay(event.currentTarget.checked)}
+                    />
+                </Group>
+            </Group>
+
+            {isPerDay ? (
+                DAYS_OF_WEEK.map(day => (
+                    <TimeWindowSlider
+                        key={day}
+                        label={day}
+                        window={filters.dayTimeWindows[day] ?? filters.timeWindow}
+                        onChange={(window) => updateDayWindow(day, window)}
+                    />
+                ))
+            ) : (
+                <TimeWindowSlider
+                    label="Every day"
+                    window={filters.timeWindow}
+                    onChange={(window) => setFilters({ ...filters, timeWindow: window })}
+                />
+            )}
+        </Stack>
+    );
+}
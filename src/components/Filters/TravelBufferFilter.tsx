@@ -0,0 +1,129 @@
+import { useMemo } from 'react';
+import { Stack, Group, NumberInput, SegmentedControl, Select, ActionIcon, Button, Text } from '@mantine/core';
+import { IconPlus, IconTrash } from '@tabler/icons-react';
+import { useFilters } from '../../context/filterContext';
+import type { TravelBufferMode, TravelTime } from '../../types/filters';
+import type { CourseSection } from '../../utilities/csvParser';
+import { createTravelTime } from '../../utilities/travelBuffer';
+
+const MAX_TRAVEL_MINUTES = 180;
+
+interface TravelBufferFilterProps {
+    sections: CourseSection[];
+}
+
+export function TravelBufferFilter({ sections }: TravelBufferFilterProps) {
+    const { filters, setFilters } = useFilters();
+
+    // Campuses and buildings both work as places in the travel time table
+    const places = useMemo(() => {
+        const values = sections.flatMap(section => [section.campus, section.building]);
+        return Array.from(new Set(values.filter((value): value is string => Boolean(value)))).sort();
+    }, [sections]);
+
+    const updateTravelTimes = (travelTimes: TravelTime[]) => {
+        setFilters({ ...filters, travelTimes });
+    };
+
+    const updateTravelTime = (id: string, changes: Partial<TravelTime>) => {
+        updateTravelTimes(filters.travelTimes.map(travelTime =>
+            travelTime.id === id ? { ...travelTime, ...changes } : travelTime
+        ));
+    };
+
+    const addTravelTime = () => {
+        updateTravelTimes([...filters.travelTimes, createTravelTime(places[0] ?? '', places[1] ?? '', 30)]);
+    };
+
+    const toMinutes = (value: string | number): number => {
+        return Math.min(MAX_TRAVEL_MINUTES, Math.max(0, Number(value) || 0));
+    };
+
+    return (
+        <Stack gap="xs">
+            <Group grow>
+                <NumberInput
+                    label="Between different places (min)"
+                    min={0}
+                    max={MAX_TRAVEL_MINUTES}
+                    step={5}
+                    value={filters.defaultTravelMinutes}
+                    onChange={(value) => setFilters({ ...filters, defaultTravelMinutes: toMinutes(value) })}
+                />
+                <NumberInput
+                    label="From online to in-person (min)"
+                    min={0}
+                    max={MAX_TRAVEL_MINUTES}
+                    step={5}
+                    value={filters.onlineToCampusMinutes}
+                    onChange={(value) => setFilters({ ...filters, onlineToCampusMinutes: toMinutes(value) })}
+                />
+            </Group>
+
+            {filters.travelTimes.map(travelTime => (
+                <Group key={travelTime.id} gap="xs" wrap="nowrap">
+                    <Select
+                        style={{ flex: 1 }}
+                        placeholder="From"
+                        data={places}
+                        value={travelTime.from || null}
+                        onChange={(value) => updateTravelTime(travelTime.id, { from: value ?? '' })}
+                        searchable
+                    />
+                    <Select
+                        style={{ flex: 1 }}
+                        placeholder="To"
+                        data={places}
+                        value={travelTime.to || null}
+                        onChange={(value) => updateTravelTime(travelTime.id, { to: value ?? '' })}
+                        searchable
+                    />
+                    <NumberInput
+                        w="6rem"
+                        min={0}
+                        max={MAX_TRAVEL_MINUTES}
+                        step={5}
+                        suffix=" min"
+                        value={travelTime.minutes}
+                        onChange={(value) => updateTravelTime(travelTime.id, { minutes: toMinutes(value) })}
+                    />
+                    <ActionIcon
+                        variant="subtle"
+                        color="#bf616a"
+                        onClick={() => updateTravelTimes(filters.travelTimes.filter(({ id }) => id !== travelTime.id))}
+                        aria-label="Remove travel time"
+                    >
+                        <IconTrash size={16} />
+                    </ActionIcon>
+                </Group>
+            ))}
+
+            <Group justify="space-between">
+                <SegmentedControl
+                    size="xs"
+                    data={[
+                        { label: 'Rule out', value: 'reject' },
+                        { label: 'Lower score', value: 'penalize' }
+                    ]}
+                    value={filters.travelBufferMode}
+                    onChange={(value) => setFilters({ ...filters, travelBufferMode: value as TravelBufferMode })}
+                />
+                <Button
+                    variant="light"
+                    size="xs"
+                    color="#5e81ac"
+                    leftSection={<IconPlus size={14} />}
+                    onClick={addTravelTime}
+                    disabled={places.length < 2}
+                >
+                    Add travel time
+                </Button>
+            </Group>
+            <Text size="xs" c="dimmed">
+                {places.length < 2
+                    ? 'Travel times between specific places need campus or building data.'
+                    : 'Specific travel times override the default; buildings are checked before campuses.'}
+            </Text>
+        </Stack>
+    );
+}
\ No newline at end of file
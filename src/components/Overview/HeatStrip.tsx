@@ -0,0 +1,59 @@
+import type { CourseSection } from '../../utilities/csvParser';
+import { getSectionIntervals } from '../../utilities/conflictMatrix';
+import { DAYS_OF_WEEK, WEEKDAYS } from '../../utilities/timeUtils';
+
+interface HeatStripProps {
+    sections: CourseSection[];
+    color: string;
+    showWeekend?: boolean;   // Adds Saturday and Sunday rows, so thumbnails of one list line up
+}
+
+// Same hours as the calendar; meetings outside them are cut at the edges
+const FIRST_MINUTE = 8 * 60;
+const LAST_MINUTE = 21 * 60;
+const STRIP_HEIGHT = 8;
+
+/**
+ * One thin bar per day with class time filled in; online meetings are
+ * lighter, so busy in-person days stand out at a glance
+ */
+export function HeatStrip({ sections, color, showWeekend = false }: HeatStripProps) {
+    const range = LAST_MINUTE - FIRST_MINUTE;
+    const days = showWeekend ? DAYS_OF_WEEK : WEEKDAYS;
+    const intervals = sections.flatMap(getSectionIntervals)
+        .map(interval => ({
+            ...interval,
+            start: Math.max(interval.start, FIRST_MINUTE),
+            end: Math.min(interval.end, LAST_MINUTE)
+        }))
+        .filter(interval => interval.end > interval.start);
+
+    return (
+        <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', columnGap: 6, rowGap: 3, alignItems: 'center' }}>
+            {days.map((day, dayIndex) => (
+                <div key={day} style={{ display: 'contents' }}>
+                    <span style={{ fontSize: '0.6rem', lineHeight: 1, opacity: 0.7 }}>{day.charAt(0)}</span>
+                    <div style={{ position: 'relative', height: STRIP_HEIGHT, borderRadius: 2, backgroundColor: 'rgba(129, 161, 193, 0.15)' }}>
+                        {intervals
+                            .filter(interval => interval.day === dayIndex)
+                            .map((interval, index) => (
+                                <div
+                                    key={index}
+                                    style={{
+                                        position: 'absolute',
+                                        top: 0,
+                                        bottom: 0,
+                                        left: `${(interval.start - FIRST_MINUTE) / range * 100}%`,
+                                        width: `${(interval.end - interval.start) / range * 100}%`,
+                                        backgroundColor: color,
+                                        opacity: interval.isOnline ? 0.4 : 0.9,
+                                        borderRadius: 2
+                                    }}
+                                />
+                            ))}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
\ No newline at end of file
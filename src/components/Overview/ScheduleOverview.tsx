@@ -0,0 +1,165 @@
+import { useMemo, useState } from 'react';
+import { Stack, Group, Select, SegmentedControl, Text, Paper, Badge, Alert, UnstyledButton } from '@mantine/core';
+import { useSchedule } from '../../context/scheduleContext';
+import type { ScheduleCombination } from '../../utilities/scheduleGenerator';
+import { comparisonMetrics } from '../../utilities/scheduleComparison';
+import { getSectionIntervals } from '../../utilities/conflictMatrix';
+import { minutesToTime, WEEKDAYS } from '../../utilities/timeUtils';
+import { VirtualGrid } from './VirtualGrid';
+import { HeatStrip } from './HeatStrip';
+
+interface ScheduleOverviewProps {
+    onOpenCombination: () => void;   // Called after a thumbnail is picked, e.g. to switch to the calendar
+}
+
+type SortDirection = 'best' | 'worst';
+
+const RANK_SORT = 'rank';
+const CARD_MIN_WIDTH = 220;
+const ROW_HEIGHT = 150;
+const WEEKEND_ROWS_HEIGHT = 22;   // Two more heat strip rows
+const GRID_HEIGHT = 620;
+
+const sortOptions = [
+    { value: RANK_SORT, label: 'Rank' },
+    ...comparisonMetrics.map(metric => ({ value: metric.label, label: metric.label }))
+];
+
+interface OverviewCardProps {
+    combination: ScheduleCombination;
+    rank: number;
+    isCurrent: boolean;
+    showWeekend: boolean;
+    onClick: () => void;
+}
+
+function OverviewCard({ combination, rank, isCurrent, showWeekend, onClick }: OverviewCardProps) {
+    const { metrics } = combination;
+
+    return (
+        <UnstyledButton onClick={onClick} style={{ display: 'block', width: '100%', height: '100%' }}>
+            <Paper
+                withBorder
+                p="xs"
+                radius="md"
+                h="100%"
+                style={{ borderColor: isCurrent ? '#5e81ac' : undefined, borderWidth: isCurrent ? 2 : undefined }}
+            >
+                <Stack gap={6}>
+                    <Group justify="space-between" wrap="nowrap">
+                        <Text size="xs" fw={600}>#{rank}</Text>
+                        <Badge size="xs" variant="outline" color="#81a1c1">{combination.id}</Badge>
+                        <Text size="xs" c="dimmed">{combination.score.toFixed(1)}</Text>
+                    </Group>
+                    <HeatStrip sections={combination.sections} color="#5e81ac" showWeekend={showWeekend} />
+                    <Text size="xs" c="dimmed" truncate>
+                        {metrics.campusDays} campus days · {(metrics.totalGapMinutes / 60).toFixed(1)} h gaps ·
+                        {' '}{minutesToTime(metrics.earliestStart)}-{minutesToTime(metrics.latestEnd)}
+                    </Text>
+                </Stack>
+            </Paper>
+        </UnstyledButton>
+    );
+}
+
+/**
+ * Every generated combination as a compact thumbnail in a virtualised grid,
+ * sortable by the summary metrics. Picking one shows it on the calendar.
+ */
+export function ScheduleOverview({ onOpenCombination }: ScheduleOverviewProps) {
+    const { scheduleResults, currentCombination, selectCombinationById } = useSchedule();
+    const [sortBy, setSortBy] = useState(RANK_SORT);
+    const [direction, setDirection] = useState<SortDirection>('best');
+
+    // Rank is the position in the generator's best-first order
+    const ranks = useMemo(() => {
+        const rankById = new Map<string, number>();
+        scheduleResults?.combinations.forEach((combination, index) => rankById.set(combination.id, index + 1));
+        return rankById;
+    }, [scheduleResults]);
+
+    // Weekend rows are drawn on every thumbnail once any combination meets on a weekend
+    const showWeekend = useMemo(() => {
+        return (scheduleResults?.combinations ?? []).some(combination =>
+            combination.sections.some(section =>
+                getSectionIntervals(section).some(interval => interval.day >= WEEKDAYS.length)
+            )
+        );
+    }, [scheduleResults]);
+
+    const sortedCombinations = useMemo(() => {
+        const combinations = scheduleResults?.combinations ?? [];
+        const metric = comparisonMetrics.find(candidate => candidate.label === sortBy);
+        // Metrics without a better direction sort from high to low as "best"
+        const sign = metric?.better === 'lower' ? 1 : -1;
+        const sorted = metric
+            ? [...combinations].sort((a, b) =>
+                sign * (metric.getValue(a) - metric.getValue(b)) ||
+                (ranks.get(a.id) ?? 0) - (ranks.get(b.id) ?? 0)
+            )
+            : [...combinations];
+        return direction === 'best' ? sorted : sorted.reverse();
+    }, [scheduleResults, sortBy, direction, ranks]);
+
+    const handleOpen = (combination: ScheduleCombination) => {
+        if (selectCombinationById(combination.id)) {
+            onOpenCombination();
+        }
+    };
+
+    if (!scheduleResults || scheduleResults.combinations.length === 0) {
+        return (
+            <Alert color="blue" title="No Schedules Yet">
+                Generate schedules in the Config View tab to see them all here.
+            </Alert>
+        );
+    }
+
+    return (
+        <Stack gap="sm">
+            <Group justify="space-between">
+                <Text size="sm" c="dimmed">
+                    {scheduleResults.combinations.length} combinations
+                    {!scheduleResults.stats.isComplete && ' (partial results)'}. Click one to open it on the calendar.
+                </Text>
+                <Group gap="xs">
+                    <Select
+                        size="xs"
+                        w="12rem"
+                        aria-label="Sort by"
+                        data={sortOptions}
+                        value={sortBy}
+                        onChange={(value) => value && setSortBy(value)}
+                        allowDeselect={false}
+                    />
+                    <SegmentedControl
+                        size="xs"
+                        data={[
+                            { label: 'Best first', value: 'best' },
+                            { label: 'Worst first', value: 'worst' }
+                        ]}
+                        value={direction}
+                        onChange={(value) => setDirection(value as SortDirection)}
+                    />
+                </Group>
+            </Group>
+            <VirtualGrid
+                items={sortedCombinations}
+                getKey={combination => combination.id}
+                renderItem={combination => (
+                    <OverviewCard
+                        combination={combination}
+                        rank={ranks.get(combination.id) ?? 0}
+                        isCurrent={combination.id === currentCombination?.id}
+                        showWeekend={showWeekend}
+                        onClick={() => handleOpen(combination)}
+                    />
+                )}
+                minColumnWidth={CARD_MIN_WIDTH}
+                rowHeight={showWeekend ? ROW_HEIGHT + WEEKEND_ROWS_HEIGHT : ROW_HEIGHT}
+                height={GRID_HEIGHT}
+                resetKey={`${sortBy}-${direction}`}
+            />
+        </Stack>
+    );
+}
\ No newline at end of file
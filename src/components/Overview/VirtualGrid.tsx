@@ -0,0 +1,80 @@
+import { useEffect, useRef, useState, type ReactNode } from 'react';
+import { useElementSize } from '@mantine/hooks';
+
+interface VirtualGridProps<T> {
+    items: T[];
+    getKey: (item: T) => string;
+    renderItem: (item: T, index: number) => ReactNode;
+    minColumnWidth: number;
+    rowHeight: number;
+    height: number;
+    gap?: number;
+    resetKey?: string;   // Scrolls back to the top whenever this changes
+}
+
+// Rows rendered above and below the visible ones so fast scrolling doesn't flash
+const OVERSCAN_ROWS = 2;
+
+/**
+ * A scrolling grid that only renders the rows in view, so thousands of items
+ * stay smooth. Every row has the same height; the column count follows the width.
+ */
+export function VirtualGrid<T>({
+    items,
+    getKey,
+    renderItem,
+    minColumnWidth,
+    rowHeight,
+    height,
+    gap = 12,
+    resetKey
+}: VirtualGridProps<T>) {
+    const { ref: sizeRef, width } = useElementSize();
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+
+    useEffect(() => {
+        scrollRef.current?.scrollTo({ top: 0 });
+        setScrollTop(0);
+    }, [resetKey]);
+
+    const columns = Math.max(1, Math.floor((width + gap) / (minColumnWidth + gap)));
+    const rowCount = Math.ceil(items.length / columns);
+    const firstRow = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN_ROWS);
+    const lastRow = Math.min(rowCount, Math.ceil((scrollTop + height) / rowHeight) + OVERSCAN_ROWS);
+
+    const rows: number[] = [];
+    for (let row = firstRow; row < lastRow; row++) rows.push(row);
+
+    return (
+        <div
+            ref={scrollRef}
+            style={{ height, overflowY: 'auto' }}
+            onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+        >
+            <div ref={sizeRef} style={{ position: 'relative', height: rowCount * rowHeight }}>
+                {width > 0 && rows.map(row => (
+                    <div
+                        key={row}
+                        style={{
+                            position: 'absolute',
+                            top: row * rowHeight,
+                            left: 0,
+                            right: 0,
+                            height: rowHeight - gap,
+                            display: 'grid',
+                            gridTemplateColumns: `repeat(${columns}, 1fr)`,
+                            gap
+                        }}
+                    >
+                        {items.slice(row * columns, (row + 1) * columns).map((item, offset) => (
+                            <div key={getKey(item)} style={{ minWidth: 0 }}>
+                                {renderItem(item, row * columns + offset)}
+                            </div>
+                        ))}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { Table, ActionIcon, Tooltip, Group, Text } from '@mantine/core';
+import { IconPin, IconPinFilled, IconBan } from '@tabler/icons-react';
+import { formatMeetingSummary, type CourseSection } from '../../utilities/csvParser';
+import { useConstraints } from '../../context/useConstraints';
+
+interface SectionListProps {
+    sections: CourseSection[];
+}
+
+export function SectionList({ sections }: SectionListProps) {
+    const { pinnedCrns, excludedCrns, togglePinned, toggleExcluded } = useConstraints();
+
+    return (
+        <Table withRowBorders={false} verticalSpacing={4}>
+            <Table.Tbody>
+                {sections.map(section => {
+                    const isPinned = pinnedCrns.has(section.crn);
+                    const isExcluded = excludedCrns.has(section.crn);
+
+                    return (
+                        <Table.Tr key={section.crn} opacity={isExcluded ? 0.5 : 1}>
+                            <Table.Td>
+                                <Group gap={4} wrap="nowrap">
+                                    <Tooltip label={isPinned ? 'Unpin section' : 'Must include this section'}>
+                                        <ActionIcon
+                                            variant={isPinned ? 'filled' : 'subtle'}
+                                            color="#5e81ac"
+                                            size="sm"
+                                            onClick={() => togglePinned(section)}
+                                        >
+                                            {isPinned ? <IconPinFilled size={14} /> : <IconPin size={14} />}
+                                        </ActionIcon>
+                                    </Tooltip>
+                                    <Tooltip label={isExcluded ? 'Allow section again' : 'Never include this section'}>
+                                        <ActionIcon
+                                            variant={isExcluded ? 'filled' : 'subtle'}
+                                            color="#bf616a"
+                                            size="sm"
+                                            onClick={() => toggleExcluded(section)}
+                                        >
+                                            <IconBan size={14} />
+                                        </ActionIcon>
+                                    </Tooltip>
+                                </Group>
+                            </Table.Td>
+                            <Table.Td><Text size="sm" fw={500}>{section.crn}</Text></Table.Td>
+                            <Table.Td><Text size="sm">{section.component ?? ''}</Text></Table.Td>
+                            <Table.Td><Text size="sm">{formatMeetingSummary(section)}</Text></Table.Td>
+                            <Table.Td><Text size="sm" c="dimmed">{section.instructor ?? ''}</Text></Table.Td>
+                        </Table.Tr>
+                    );
+                })}
+            </Table.Tbody>
+        </Table>
+    );
+}
@@ -0,0 +1,97 @@
+import { useCallback, useMemo, useState, type ReactNode } from 'react';
+import { DEFAULT_COMPONENT, type CourseSection } from '../utilities/csvParser';
+import type { CourseLoadRange } from '../utilities/scheduleGenerator';
+import { ConstraintsContext } from './useConstraints';
+
+// Sections that fill the same slot of a course, so only one of them can be pinned
+const isSameSlot = (a: CourseSection, b: CourseSection): boolean => {
+    return a.subject === b.subject &&
+        a.courseCode === b.courseCode &&
+        (a.component ?? DEFAULT_COMPONENT) === (b.component ?? DEFAULT_COMPONENT);
+};
+
+export function ConstraintsProvider({ children }: { children: ReactNode }) {
+    const [pinnedSections, setPinnedSections] = useState<Map<string, CourseSection>>(new Map());
+    const [excludedCrns, setExcludedCrns] = useState<Set<string>>(new Set());
+    const [optionalCourseIds, setOptionalCourseIds] = useState<Set<string>>(new Set());
+    const [courseLoad, setCourseLoad] = useState<CourseLoadRange>({});
+
+    const pinnedCrns = useMemo(() => new Set(pinnedSections.keys()), [pinnedSections]);
+
+    const togglePinned = useCallback((section: CourseSection) => {
+        setPinnedSections(prev => {
+            const next = new Map(prev);
+            if (next.has(section.crn)) {
+                next.delete(section.crn);
+                return next;
+            }
+            // Pinning a section replaces any other pin for the same course component
+            for (const [crn, pinned] of prev) {
+                if (isSameSlot(pinned, section)) next.delete(crn);
+            }
+            next.set(section.crn, section);
+            return next;
+        });
+        setExcludedCrns(prev => {
+            if (!prev.has(section.crn)) return prev;
+            const next = new Set(prev);
+            next.delete(section.crn);
+            return next;
+        });
+    }, []);
+
+    const toggleExcluded = useCallback((section: CourseSection) => {
+        setExcludedCrns(prev => {
+            const next = new Set(prev);
+            if (next.has(section.crn)) {
+                next.delete(section.crn);
+            } else {
+                next.add(section.crn);
+            }
+            return next;
+        });
+        setPinnedSections(prev => {
+            if (!prev.has(section.crn)) return prev;
+            const next = new Map(prev);
+            next.delete(section.crn);
+            return next;
+        });
+    }, []);
+
+    const toggleCourseOptional = useCallback((courseId: string) => {
+        setOptionalCourseIds(prev => {
+            const next = new Set(prev);
+            if (next.has(courseId)) {
+                next.delete(courseId);
+            } else {
+                next.add(courseId);
+            }
+            return next;
+        });
+    }, []);
+
+    const clearConstraints = useCallback(() => {
+        setPinnedSections(new Map());
+        setExcludedCrns(new Set());
+        setOptionalCourseIds(new Set());
+        setCourseLoad({});
+    }, []);
+
+    const value = {
+        pinnedCrns,
+        excludedCrns,
+        optionalCourseIds,
+        courseLoad,
+        togglePinned,
+        toggleExcluded,
+        toggleCourseOptional,
+        setCourseLoad,
+        clearConstraints
+    };
+
+    return (
+        <ConstraintsContext.Provider value={value}>
+            {children}
+        </ConstraintsContext.Provider>
+    );
+}
@@ -13,8 +13,9 @@ const FilterContext = createContext<FilterContextType | undefined>(undefined);
 export function FilterProvider({ children }: { children: ReactNode }) {
     const [filters, setFilters] = useState<ScheduleFilters>(defaultFilters);
 
+    // Turning filters off also turns off busy blocks enabled from the calendar
     const toggleFilters = (enabled: boolean) => {
-        setFilters(prev => ({ ...prev, isEnabled: enabled }));
+        setFilters(prev => ({ ...prev, isEnabled: enabled, busyBlocksEnabled: enabled && prev.busyBlocksEnabled }));
     };
 
     return (
@@ -1,47 +1,183 @@
-import React, { createContext, useContext, useState, useCallback } from 'react';
-import type { ScheduleGeneratorResult, ScheduleCombination } from '../utilities/scheduleGenerator';
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
+import type { ScheduleGeneratorResult, ScheduleCombination, ScheduleGroup } from '../utilities/scheduleGenerator';
+import type { CourseSection } from '../utilities/csvParser';
+import { MAX_COMPARED_COMBINATIONS } from '../utilities/scheduleComparison';
 
 interface ScheduleContextType {
     scheduleResults: ScheduleGeneratorResult | null;
     setScheduleResults: (results: ScheduleGeneratorResult | null) => void;
-    currentCombinationIndex: number;
-    setCurrentCombinationIndex: (index: number) => void;
+    mergeScheduleResults: (results: ScheduleGeneratorResult) => void;  // Updates results, keeping what is shown
+    currentGroupIndex: number;
+    setCurrentGroupIndex: (index: number) => void;
+    currentGroup: ScheduleGroup | null;
+    totalGroups: number;
+    nextGroup: () => void;
+    previousGroup: () => void;
+    currentAlternativeIndex: number;                 // Which CRN set of the current group is shown
+    setCurrentAlternativeIndex: (index: number) => void;
     currentCombination: ScheduleCombination | null;
     totalCombinations: number;
-    nextCombination: () => void;
-    previousCombination: () => void;
+    selectCombinationById: (id: string) => boolean;  // Shows the combination with this id, if any
+    sourceSections: CourseSection[];                 // Sections the results were generated from
+    setSourceSections: (sections: CourseSection[]) => void;
+    customCombinations: ScheduleCombination[];       // Combinations built by hand, e.g. by swapping a section
+    isCustomCombination: boolean;                    // Whether currentCombination is one of them
+    showCustomCombination: (combination: ScheduleCombination) => void;
+    clearCustomCombination: () => void;              // Goes back to the current generated combination
+    comparedCombinations: ScheduleCombination[];     // Picked for side-by-side comparison, in the order added
+    toggleCompared: (combination: ScheduleCombination) => void;
+    clearCompared: () => void;
 }
 
 const ScheduleContext = createContext<ScheduleContextType | undefined>(undefined);
 
+// Where a combination sits among the groups, or null if it was not generated
+const findCombinationPosition = (
+    groups: ScheduleGroup[],
+    id: string
+): { groupIndex: number; alternativeIndex: number } | null => {
+    for (let groupIndex = 0; groupIndex < groups.length; groupIndex++) {
+        const alternativeIndex = groups[groupIndex].combinations.findIndex(combination => combination.id === id);
+        if (alternativeIndex !== -1) return { groupIndex, alternativeIndex };
+    }
+    return null;
+};
+
 export function ScheduleProvider({ children }: { children: React.ReactNode }) {
-    const [scheduleResults, setScheduleResults] = useState<ScheduleGeneratorResult | null>(null);
-    const [currentCombinationIndex, setCurrentCombinationIndex] = useState(0);
+    const [scheduleResults, setScheduleResultsState] = useState<ScheduleGeneratorResult | null>(null);
+    const [currentGroupIndex, setCurrentGroupIndexState] = useState(0);
+    const [currentAlternativeIndex, setCurrentAlternativeIndexState] = useState(0);
+    const [sourceSections, setSourceSections] = useState<CourseSection[]>([]);
+    const [customCombinations, setCustomCombinations] = useState<ScheduleCombination[]>([]);
+    const [customCombinationId, setCustomCombinationId] = useState<string | null>(null);
+    const [comparedCombinations, setComparedCombinations] = useState<ScheduleCombination[]>([]);
 
-    const currentCombination = scheduleResults?.combinations[currentCombinationIndex] || null;
+    const currentGroup = scheduleResults?.groups[currentGroupIndex] || null;
+    const customCombination = customCombinations.find(combination => combination.id === customCombinationId) || null;
+    const currentCombination = customCombination ||
+        currentGroup?.combinations[currentAlternativeIndex] || currentGroup?.combinations[0] || null;
+    const totalGroups = scheduleResults?.groups.length || 0;
     const totalCombinations = scheduleResults?.combinations.length || 0;
 
-    const nextCombination = useCallback(() => {
-        if (scheduleResults && currentCombinationIndex < scheduleResults.combinations.length - 1) {
-            setCurrentCombinationIndex(prev => prev + 1);
+    // Read when results are merged, which may happen from a callback created long before
+    const shownGeneratedIdRef = useRef<string | null>(null);
+    const shownGeneratedId = currentGroup?.combinations[currentAlternativeIndex]?.id ?? null;
+    useEffect(() => {
+        shownGeneratedIdRef.current = shownGeneratedId;
+    }, [shownGeneratedId]);
+
+    const setScheduleResults = useCallback((results: ScheduleGeneratorResult | null) => {
+        setScheduleResultsState(results);
+        setCurrentGroupIndexState(0);
+        setCurrentAlternativeIndexState(0);
+        setCustomCombinations([]);
+        setCustomCombinationId(null);
+        setComparedCombinations([]);
+    }, []);
+
+    // Used when a run finishes after streaming a first batch: the shown, hand-built
+    // and compared combinations all stay, with generated ones swapped for their final copies
+    const mergeScheduleResults = useCallback((results: ScheduleGeneratorResult) => {
+        const shownId = shownGeneratedIdRef.current;
+        const position = shownId ? findCombinationPosition(results.groups, shownId) : null;
+        const combinationsById = new Map(results.combinations.map(combination => [combination.id, combination]));
+        setScheduleResultsState(results);
+        setCurrentGroupIndexState(position?.groupIndex ?? 0);
+        setCurrentAlternativeIndexState(position?.alternativeIndex ?? 0);
+        setComparedCombinations(previous =>
+            previous.map(combination => combinationsById.get(combination.id) ?? combination)
+        );
+    }, []);
+
+    // Each group starts on its best ranked alternative
+    const setCurrentGroupIndex = useCallback((index: number) => {
+        setCurrentGroupIndexState(index);
+        setCurrentAlternativeIndexState(0);
+        setCustomCombinationId(null);
+    }, []);
+
+    const setCurrentAlternativeIndex = useCallback((index: number) => {
+        setCurrentAlternativeIndexState(index);
+        setCustomCombinationId(null);
+    }, []);
+
+    const nextGroup = useCallback(() => {
+        if (scheduleResults && currentGroupIndex < scheduleResults.groups.length - 1) {
+            setCurrentGroupIndex(currentGroupIndex + 1);
         }
-    }, [scheduleResults, currentCombinationIndex]);
+    }, [scheduleResults, currentGroupIndex, setCurrentGroupIndex]);
 
-    const previousCombination = useCallback(() => {
-        if (currentCombinationIndex > 0) {
-            setCurrentCombinationIndex(prev => prev - 1);
+    const previousGroup = useCallback(() => {
+        if (currentGroupIndex > 0) {
+            setCurrentGroupIndex(currentGroupIndex - 1);
         }
-    }, [currentCombinationIndex]);
+    }, [currentGroupIndex, setCurrentGroupIndex]);
+
+    const selectCombinationById = useCallback((id: string): boolean => {
+        const normalizedId = id.trim().toUpperCase();
+        const position = findCombinationPosition(scheduleResults?.groups ?? [], normalizedId);
+        if (position) {
+            setCurrentGroupIndexState(position.groupIndex);
+            setCurrentAlternativeIndexState(position.alternativeIndex);
+            setCustomCombinationId(null);
+            return true;
+        }
+        if (customCombinations.some(combination => combination.id === normalizedId)) {
+            setCustomCombinationId(normalizedId);
+            return true;
+        }
+        return false;
+    }, [scheduleResults, customCombinations]);
+
+    // A hand-built combination that was also generated is shown in its group instead
+    const showCustomCombination = useCallback((combination: ScheduleCombination) => {
+        if (selectCombinationById(combination.id)) return;
+        setCustomCombinations(previous => [...previous, combination]);
+        setCustomCombinationId(combination.id);
+    }, [selectCombinationById]);
+
+    const clearCustomCombination = useCallback(() => {
+        setCustomCombinationId(null);
+    }, []);
+
+    // Adds a combination to the comparison, or removes it if already there; a full comparison is left as is
+    const toggleCompared = useCallback((combination: ScheduleCombination) => {
+        setComparedCombinations(previous => {
+            if (previous.some(compared => compared.id === combination.id)) {
+                return previous.filter(compared => compared.id !== combination.id);
+            }
+            return previous.length < MAX_COMPARED_COMBINATIONS ? [...previous, combination] : previous;
+        });
+    }, []);
+
+    const clearCompared = useCallback(() => {
+        setComparedCombinations([]);
+    }, []);
 
     const value = {
         scheduleResults,
         setScheduleResults,
-        currentCombinationIndex,
-        setCurrentCombinationIndex,
+        mergeScheduleResults,
+        currentGroupIndex,
+        setCurrentGroupIndex,
+        currentGroup,
+        totalGroups,
+        nextGroup,
+        previousGroup,
+        currentAlternativeIndex,
+        setCurrentAlternativeIndex,
         currentCombination,
         totalCombinations,
-        nextCombination,
-        previousCombination,
+        selectCombinationById,
+        sourceSections,
+        setSourceSections,
+        customCombinations,
+        isCustomCombination: customCombination !== null,
+        showCustomCombination,
+        clearCustomCombination,
+        comparedCombinations,
+        toggleCompared,
+        clearCompared,
     };
 
     return (
@@ -0,0 +1,25 @@
+import { createContext, useContext } from 'react';
+import type { CourseSection } from '../utilities/csvParser';
+import type { CourseLoadRange } from '../utilities/scheduleGenerator';
+
+interface ConstraintsContextType {
+    pinnedCrns: Set<string>;
+    excludedCrns: Set<string>;
+    optionalCourseIds: Set<string>; // Selected courses not marked optional are required
+    courseLoad: CourseLoadRange;
+    togglePinned: (section: CourseSection) => void;
+    toggleExcluded: (section: CourseSection) => void;
+    toggleCourseOptional: (courseId: string) => void;
+    setCourseLoad: (courseLoad: CourseLoadRange) => void;
+    clearConstraints: () => void;
+}
+
+export const ConstraintsContext = createContext<ConstraintsContextType | undefined>(undefined);
+
+export function useConstraints() {
+    const context = useContext(ConstraintsContext);
+    if (!context) {
+        throw new Error('useConstraints must be used within a ConstraintsProvider');
+    }
+    return context;
+}
@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { CourseSection } from '../utilities/csvParser';
+import type { ScheduleFilters } from '../types/filters';
+import type {
+    GenerationProgress,
+    ScheduleGeneratorConstraints,
+    ScheduleGeneratorResult
+} from '../utilities/scheduleGenerator';
+import type { DiagnosticsProgress } from '../utilities/scheduleDiagnostics';
+import type { ScheduleWorkerRequest, ScheduleWorkerResponse } from '../workers/scheduleWorkerProtocol';
+import { useSchedule } from '../context/scheduleContext';
+
+interface PendingRun {
+    requestId: number;
+    hasStreamed: boolean;   // Whether a first batch already replaced the previous results
+    resolve: (result: ScheduleGeneratorResult | null) => void;
+    reject: (error: Error) => void;
+}
+
+const createWorker = () => new Worker(
+    new URL('../workers/scheduleWorker.ts', import.meta.url),
+    { type: 'module' }
+);
+
+/**
+ * Runs schedule generation in a Web Worker so the page stays responsive.
+ * The first batch of results is streamed into ScheduleContext while the
+ * search continues; cancelling keeps whatever was streamed so far. The final
+ * result is merged in, so a combination picked meanwhile stays selected.
+ */
+export function useScheduleGenerator() {
+    const { setScheduleResults, mergeScheduleResults, setSourceSections } = useSchedule();
+    const workerRef = useRef<Worker | null>(null);
+    const pendingRef = useRef<PendingRun | null>(null);
+    const nextRequestIdRef = useRef(0);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [progress, setProgress] = useState<GenerationProgress | null>(null);
+    // Set once the search is over and the worker is working out why results are missing
+    const [diagnosticsProgress, setDiagnosticsProgress] = useState<DiagnosticsProgress | null>(null);
+
+    const finishRun = useCallback(() => {
+        pendingRef.current = null;
+        setIsGenerating(false);
+        setProgress(null);
+        setDiagnosticsProgress(null);
+    }, []);
+
+    const handleMessage = useCallback((event: MessageEvent<ScheduleWorkerResponse>) => {
+        const response = event.data;
+        const pending = pendingRef.current;
+        if (!pending || response.requestId !== pending.requestId) return;
+
+        switch (response.type) {
+            case 'progress':
+                setProgress(response.progress);
+                break;
+            case 'diagnosticsProgress':
+                setDiagnosticsProgress(response.progress);
+                break;
+            case 'batch':
+                pending.hasStreamed = true;
+                setScheduleResults(response.result);
+                break;
+            case 'done':
+                // Merged so anything picked from the first batch stays selected
+                if (pending.hasStreamed) {
+                    mergeScheduleResults(response.result);
+                } else if (response.result.combinations.length > 0) {
+                    setScheduleResults(response.result);
+                }
+                finishRun();
+                pending.resolve(response.result);
+                break;
+            case 'error':
+                finishRun();
+                pending.reject(new Error(response.message));
+                break;
+        }
+    }, [finishRun, setScheduleResults, mergeScheduleResults]);
+
+    const getWorker = useCallback(() => {
+        if (!workerRef.current) {
+            workerRef.current = createWorker();
+            workerRef.current.onmessage = handleMessage;
+        }
+        return workerRef.current;
+    }, [handleMessage]);
+
+    // The search is synchronous inside the worker, so cancelling terminates it
+    const cancel = useCallback(() => {
+        const pending = pendingRef.current;
+        workerRef.current?.terminate();
+        workerRef.current = null;
+        finishRun();
+        pending?.resolve(null);
+    }, [finishRun]);
+
+    /**
+     * Starts a generation run, cancelling any run in progress
+     * @returns The final result, or null if the run was cancelled
+     */
+    const generate = useCallback((
+        sections: CourseSection[],
+        selectedCourseIds: Set<string>,
+        filters: ScheduleFilters,
+        constraints: ScheduleGeneratorConstraints = {}
+    ): Promise<ScheduleGeneratorResult | null> => {
+        if (pendingRef.current) cancel();
+
+        const requestId = ++nextRequestIdRef.current;
+        const request: ScheduleWorkerRequest = {
+            type: 'generate',
+            requestId,
+            sections,
+            selectedCourseIds,
+            filters,
+            constraints
+        };
+
+        setSourceSections(sections);
+        setIsGenerating(true);
+        setProgress({ branchesExplored: 0, combinationsFound: 0 });
+
+        return new Promise((resolve, reject) => {
+            pendingRef.current = { requestId, hasStreamed: false, resolve, reject };
+            getWorker().postMessage(request);
+        });
+    }, [cancel, getWorker, setSourceSections]);
+
+    useEffect(() => {
+        return () => {
+            workerRef.current?.terminate();
+            workerRef.current = null;
+        };
+    }, []);
+
+    return { generate, cancel, isGenerating, progress, diagnosticsProgress };
+}
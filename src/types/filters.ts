@@ -1,26 +1,128 @@
-export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'any';
+import type { DayOfWeek } from '../utilities/timeUtils';
+
 export type DeliveryMode = 'online' | 'inPerson' | 'hybrid' | 'any';
 export type ScheduleCompactness = 'compact' | 'spread' | 'any';
-export type DaysOff = 'any' | 'oneDay' | 'twoDays';
+export type TimeWindowStrictness = 'all' | 'majority';
+export type TravelBufferMode = 'reject' | 'penalize';
+
+// Filters checked against whole combinations rather than single sections
+export type CombinationFilter = 'daysOff' | 'deliveryMode' | 'timeWindow' | 'scheduleCompactness';
+
+// Preferences that contribute a weighted score when ranking schedules
+export type ScoreCriterion =
+    | 'daysOff'
+    | 'consecutiveDaysOff'
+    | 'gapTime'
+    | 'earliestStart'
+    | 'latestEnd'
+    | 'onlineRatio'
+    | 'campusDays'
+    | 'softBusyBlocks'
+    | 'travelBuffer';
+export type ScoringWeights = Record<ScoreCriterion, number>;
+
+// A time the user is unavailable, e.g. a work shift or commute.
+// Hard blocks rule out overlapping sections, soft blocks only lower the score.
+export interface BusyBlock {
+    id: string;
+    day: DayOfWeek;
+    startTime: string; // "HH:MM"
+    endTime: string;
+    isHard: boolean;
+    label: string;
+}
+
+// Hours classes may be held in, as minutes since midnight.
+// A limit at the edge of TIME_WINDOW_BOUNDS means no limit on that side.
+export interface TimeWindow {
+    earliestStart: number;
+    latestEnd: number;
+}
+
+// Minutes needed to get between two campuses or buildings, in either direction
+export interface TravelTime {
+    id: string;
+    from: string;
+    to: string;
+    minutes: number;
+}
 
 export interface ScheduleFilters {
     isEnabled: boolean;
     deliveryMode: DeliveryMode;
-    timeOfDay: TimeOfDay;
+    timeWindow: TimeWindow;
+    dayTimeWindows: Partial<Record<DayOfWeek, TimeWindow>>; // Per-day overrides of timeWindow
+    timeWindowStrictness: TimeWindowStrictness;             // Whether all or most meetings must fit
     scheduleCompactness: ScheduleCompactness;
-    daysOff: DaysOff;
+    freeDays: DayOfWeek[];         // Days that must stay free of classes
+    minDaysOff: number;            // Fewest weekdays without classes, 0 for any
+    campuses: string[];            // Allowed campuses, empty for any
+    excludedInstructors: string[];
+    openSeatsOnly: boolean;
+    busyBlocks: BusyBlock[];
+    busyBlocksEnabled: boolean;     // Busy blocks apply even with the other filters off, e.g. once drawn on the calendar
+    travelTimes: TravelTime[];
+    defaultTravelMinutes: number;   // Buffer between in-person meetings at different places without a travel time
+    onlineToCampusMinutes: number;  // Buffer between an online meeting and a following in-person one
+    travelBufferMode: TravelBufferMode;
+    scoringWeights: ScoringWeights;
 }
 
-export const timeRanges = {
-    morning: { start: 8, end: 12 },
-    afternoon: { start: 12, end: 17 },
-    evening: { start: 17, end: 21 }
-} as const;
+export const TIME_WINDOW_BOUNDS: TimeWindow = {
+    earliestStart: 6 * 60,
+    latestEnd: 23 * 60
+};
+
+export const combinationFilterLabels: Record<CombinationFilter, string> = {
+    daysOff: 'Days off',
+    deliveryMode: 'Delivery mode',
+    timeWindow: 'Class hours',
+    scheduleCompactness: 'Spacing'
+};
+
+export const scoreCriterionLabels: Record<ScoreCriterion, string> = {
+    daysOff: 'More days off',
+    consecutiveDaysOff: 'Consecutive days off (long weekend)',
+    gapTime: 'Less time between classes',
+    earliestStart: 'Later first class',
+    latestEnd: 'Earlier last class',
+    onlineRatio: 'More online meetings',
+    campusDays: 'Fewer days on campus',
+    softBusyBlocks: 'Avoid soft busy times',
+    travelBuffer: 'Avoid rushing between locations'
+};
+
+export const MAX_SCORE_WEIGHT = 10;
+
+export const defaultScoringWeights: ScoringWeights = {
+    daysOff: 5,
+    consecutiveDaysOff: 0,
+    gapTime: 5,
+    earliestStart: 3,
+    latestEnd: 3,
+    onlineRatio: 0,
+    campusDays: 2,
+    softBusyBlocks: 5,
+    travelBuffer: 5
+};
 
 export const defaultFilters: ScheduleFilters = {
     isEnabled: false,
     deliveryMode: 'any',
-    timeOfDay: 'any',
+    timeWindow: TIME_WINDOW_BOUNDS,
+    dayTimeWindows: {},
+    timeWindowStrictness: 'all',
     scheduleCompactness: 'any',
-    daysOff: 'any'
+    freeDays: [],
+    minDaysOff: 0,
+    campuses: [],
+    excludedInstructors: [],
+    openSeatsOnly: false,
+    busyBlocks: [],
+    busyBlocksEnabled: false,
+    travelTimes: [],
+    defaultTravelMinutes: 0,
+    onlineToCampusMinutes: 0,
+    travelBufferMode: 'reject',
+    scoringWeights: defaultScoringWeights
 };
\ No newline at end of file
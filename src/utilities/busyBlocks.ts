@@ -0,0 +1,56 @@
+import type { BusyBlock, ScheduleFilters } from '../types/filters';
+import type { MeetingInterval } from './conflictMatrix';
+import { DAYS_OF_WEEK, timeToMinutes, type DayOfWeek } from './timeUtils';
+
+let nextBusyBlockId = 1;
+
+/**
+ * Creates a busy block with a unique id
+ * @param day - Day of the week
+ * @param startTime - Start time as "HH:MM"
+ * @param endTime - End time as "HH:MM"
+ * @param isHard - Whether overlapping sections are ruled out rather than penalised
+ * @returns The new busy block
+ */
+export const createBusyBlock = (
+    day: DayOfWeek,
+    startTime: string,
+    endTime: string,
+    isHard = true
+): BusyBlock => ({
+    id: `busy-${Date.now().toString(36)}-${nextBusyBlockId++}`,
+    day,
+    startTime,
+    endTime,
+    isHard,
+    label: ''
+});
+
+// A block is only usable once it has a well-formed time range that ends after it starts
+export const isValidBusyBlock = (block: BusyBlock): boolean => {
+    const timePattern = /^\d{2}:\d{2}$/;
+    return timePattern.test(block.startTime) &&
+        timePattern.test(block.endTime) &&
+        timeToMinutes(block.startTime) < timeToMinutes(block.endTime);
+};
+
+// Busy blocks count while filters are on, or on their own once enabled from the calendar
+export const getActiveBusyBlocks = (filters: ScheduleFilters): BusyBlock[] => {
+    return filters.isEnabled || filters.busyBlocksEnabled ? filters.busyBlocks : [];
+};
+
+/**
+ * Converts busy blocks to intervals comparable with section meetings, skipping invalid blocks
+ * @param blocks - Busy blocks
+ * @returns One interval per valid block
+ */
+export const getBusyBlockIntervals = (blocks: BusyBlock[]): MeetingInterval[] => {
+    return blocks
+        .filter(isValidBusyBlock)
+        .map(block => ({
+            day: DAYS_OF_WEEK.indexOf(block.day),
+            start: timeToMinutes(block.startTime),
+            end: timeToMinutes(block.endTime),
+            isOnline: false
+        }));
+};
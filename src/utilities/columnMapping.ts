@@ -0,0 +1,207 @@
+// Per-section fields the course CSV parser knows how to read
+export type CourseField =
+    | 'courseName'
+    | 'subject'
+    | 'courseCode'
+    | 'crn'
+    | 'instructor'
+    | 'campus'
+    | 'building'
+    | 'room'
+    | 'credits'
+    | 'capacity'
+    | 'enrolled'
+    | 'waitlist'
+    | 'startDate'
+    | 'endDate'
+    | 'component'
+    | 'linkGroup';
+
+// Fields repeated for every meeting column group
+export type MeetingField = 'day' | 'time' | 'type';
+
+// Column key for a numbered meeting group, e.g. "meeting2Day"
+export type MeetingColumnKey = `meeting${number}${Capitalize<MeetingField>}`;
+
+export type ColumnKey = CourseField | MeetingColumnKey;
+
+// Header names recognised for each field (compared after normalisation).
+// Meeting aliases may use {n} or {ordinal} placeholders for the meeting number;
+// meeting aliases without a placeholder only apply to the first meeting.
+export type ColumnAliases = Record<CourseField | MeetingField, string[]>;
+
+// Column index in the CSV for each field that was found
+export type ColumnMapping = Partial<Record<ColumnKey, number>>;
+
+export interface ColumnDetectionResult {
+    headers: string[];
+    mapping: ColumnMapping;
+    meetingCount: number;
+    missing: ColumnKey[];
+    unrecognized: number[];
+}
+
+// Upper bound on meeting column groups scanned in a header row
+export const MAX_MEETING_COLUMNS = 10;
+
+const ordinals = ['First', 'Second', 'Third', 'Fourth', 'Fifth', 'Sixth', 'Seventh', 'Eighth', 'Ninth', 'Tenth'];
+
+const meetingFields: MeetingField[] = ['day', 'time', 'type'];
+
+const courseFieldLabels: Record<CourseField, string> = {
+    courseName: 'Course Name',
+    subject: 'Subject',
+    courseCode: 'Course Code',
+    crn: 'CRN',
+    instructor: 'Instructor',
+    campus: 'Campus',
+    building: 'Building',
+    room: 'Room',
+    credits: 'Credits',
+    capacity: 'Capacity',
+    enrolled: 'Enrolled',
+    waitlist: 'Waitlist',
+    startDate: 'Start Date',
+    endDate: 'End Date',
+    component: 'Component',
+    linkGroup: 'Link Group'
+};
+
+const meetingFieldLabels: Record<MeetingField, string> = {
+    day: 'Day',
+    time: 'Time',
+    type: 'Type'
+};
+
+export const requiredColumns: ColumnKey[] = [
+    'courseName',
+    'subject',
+    'courseCode',
+    'crn',
+    'meeting1Day',
+    'meeting1Time',
+    'meeting1Type'
+];
+
+export const defaultColumnAliases: ColumnAliases = {
+    courseName: ['CourseName', 'Course Title', 'Title', 'Name'],
+    subject: ['Subject', 'Subj', 'Subject Code', 'Department', 'Dept'],
+    courseCode: ['CourseCode', 'Course Number', 'Course No', 'Course #', 'Catalog Number', 'Number'],
+    crn: ['CRN', 'CRN #', 'Course Reference Number', 'Reference Number'],
+    instructor: ['Instructor', 'Instructor Name', 'Professor', 'Teacher', 'Faculty'],
+    campus: ['Campus', 'Campus Name'],
+    building: ['Building', 'Bldg'],
+    room: ['Room', 'Room Number', 'Room #'],
+    credits: ['Credits', 'Credit Hours', 'Credit', 'Units'],
+    capacity: ['Capacity', 'Seats', 'Max Enrollment', 'Cap'],
+    enrolled: ['Enrolled', 'Enrollment', 'Actual'],
+    waitlist: ['Waitlist', 'Wait List', 'Waitlisted'],
+    startDate: ['StartDate', 'Start Date', 'Section Start', 'Begin Date'],
+    endDate: ['EndDate', 'End Date', 'Section End'],
+    component: ['Component', 'Schedule Type', 'Section Type', 'Activity'],
+    linkGroup: ['LinkGroup', 'Link', 'Link ID', 'Link Identifier', 'Linked Section'],
+    day: ['{ordinal}MeetingDay', 'Meeting {n} Day', 'Day {n}', 'MeetingDay', 'Day'],
+    time: ['{ordinal}MeetingTime', 'Meeting {n} Time', 'Time {n}', 'MeetingTime', 'Time'],
+    type: ['{ordinal}MeetingType', 'Meeting {n} Type', 'Type {n}', '{ordinal}MeetingMode', 'MeetingType', 'Type', 'Delivery Mode']
+};
+
+// Lowercase and strip everything but letters and digits so "CRN #" matches "crn"
+export const normalizeHeader = (header: string): string => {
+    return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+};
+
+export const getOrdinal = (n: number): string => ordinals[n - 1] ?? `#${n}`;
+
+export const getMeetingColumnKey = (n: number, field: MeetingField): MeetingColumnKey => {
+    return `meeting${n}${field.charAt(0).toUpperCase()}${field.slice(1)}` as MeetingColumnKey;
+};
+
+/**
+ * Human readable label for a column key
+ * @param key - Column key
+ * @returns Label such as "Course Name" or "Second Meeting Time"
+ */
+export const getColumnLabel = (key: ColumnKey): string => {
+    if (key in courseFieldLabels) return courseFieldLabels[key as CourseField];
+
+    const match = /^meeting(\d+)(Day|Time|Type)$/.exec(key);
+    if (!match) return key;
+    const field = match[2].toLowerCase() as MeetingField;
+    return `${getOrdinal(Number(match[1]))} Meeting ${meetingFieldLabels[field]}`;
+};
+
+/**
+ * Merges user supplied aliases into the default alias table
+ * @param aliases - Extra aliases per field
+ * @returns Combined alias table
+ */
+export const mergeColumnAliases = (aliases: Partial<ColumnAliases> = {}): ColumnAliases => {
+    const merged = { ...defaultColumnAliases };
+    (Object.keys(aliases) as Array<keyof ColumnAliases>).forEach(field => {
+        merged[field] = [...(aliases[field] ?? []), ...defaultColumnAliases[field]];
+    });
+    return merged;
+};
+
+// Expands placeholder aliases for the nth meeting
+const getMeetingAliases = (aliases: string[], n: number): string[] => {
+    return aliases
+        .filter(alias => n === 1 || alias.includes('{n}') || alias.includes('{ordinal}'))
+        .map(alias => alias.replace('{n}', String(n)).replace('{ordinal}', getOrdinal(n)));
+};
+
+/**
+ * Finds the column for each field by matching header names against aliases.
+ * Meeting columns are detected as numbered groups until a group has no columns.
+ * Manual assignments take precedence over auto-detection.
+ * @param headers - Header row of the CSV
+ * @param aliases - Alias table to match against
+ * @param manualMapping - Columns assigned by hand
+ * @returns The detected mapping, missing required columns and unrecognised columns
+ */
+export const detectColumnMapping = (
+    headers: string[],
+    aliases: ColumnAliases = defaultColumnAliases,
+    manualMapping: ColumnMapping = {}
+): ColumnDetectionResult => {
+    const mapping: ColumnMapping = { ...manualMapping };
+    const usedColumns = new Set(Object.values(manualMapping));
+    const normalizedHeaders = headers.map(normalizeHeader);
+
+    const assign = (key: ColumnKey, candidates: string[]): boolean => {
+        if (mapping[key] !== undefined) return true;
+
+        const normalizedCandidates = new Set(candidates.map(normalizeHeader));
+        const index = normalizedHeaders.findIndex(
+            (header, i) => !usedColumns.has(i) && normalizedCandidates.has(header)
+        );
+        if (index === -1) return false;
+
+        mapping[key] = index;
+        usedColumns.add(index);
+        return true;
+    };
+
+    (Object.keys(courseFieldLabels) as CourseField[]).forEach(field => {
+        assign(field, aliases[field]);
+    });
+
+    let meetingCount = 0;
+    for (let n = 1; n <= MAX_MEETING_COLUMNS; n++) {
+        const found = meetingFields
+            .map(field => assign(getMeetingColumnKey(n, field), getMeetingAliases(aliases[field], n)))
+            .some(Boolean);
+        if (!found && n > 1) break;
+        meetingCount = n;
+    }
+
+    return {
+        headers,
+        mapping,
+        meetingCount,
+        missing: requiredColumns.filter(key => mapping[key] === undefined),
+        unrecognized: headers
+            .map((_, index) => index)
+            .filter(index => !usedColumns.has(index))
+    };
+};
@@ -0,0 +1,135 @@
+import type { CourseSection } from './csvParser';
+import { DAYS_OF_WEEK, timeToMinutes } from './timeUtils';
+
+// A meeting normalised to a day index and minutes since midnight
+export interface MeetingInterval {
+    day: number;   // 0 = Monday ... 6 = Sunday
+    start: number;
+    end: number;
+    isOnline: boolean;
+}
+
+// Sections are immutable once parsed, so their intervals are computed once
+const intervalCache = new WeakMap<CourseSection, MeetingInterval[]>();
+
+/**
+ * Returns the meetings of a section as minute intervals, computed once per section
+ * @param section - Course section
+ * @returns Intervals sorted by day and start time
+ */
+export const getSectionIntervals = (section: CourseSection): MeetingInterval[] => {
+    let intervals = intervalCache.get(section);
+    if (!intervals) {
+        intervals = section.meetings
+            .map(meeting => ({
+                day: DAYS_OF_WEEK.indexOf(meeting.day as typeof DAYS_OF_WEEK[number]),
+                start: timeToMinutes(meeting.time.startTime),
+                end: timeToMinutes(meeting.time.endTime),
+                isOnline: meeting.type === 'Online'
+            }))
+            .sort((a, b) => a.day - b.day || a.start - b.start);
+        intervalCache.set(section, intervals);
+    }
+    return intervals;
+};
+
+/**
+ * Checks whether any interval in one list overlaps any interval in another
+ * @param intervals1 - First list of intervals
+ * @param intervals2 - Second list of intervals
+ * @returns boolean indicating if there is an overlap
+ */
+export const intervalsOverlap = (intervals1: MeetingInterval[], intervals2: MeetingInterval[]): boolean => {
+    for (const a of intervals1) {
+        for (const b of intervals2) {
+            if (a.day === b.day && Math.max(a.start, b.start) < Math.min(a.end, b.end)) {
+                return true;
+            }
+        }
+    }
+    return false;
+};
+
+/**
+ * Total minutes during which intervals in one list overlap intervals in another
+ * @param intervals1 - First list of intervals
+ * @param intervals2 - Second list of intervals
+ * @returns Overlapping minutes summed over every pair
+ */
+export const getOverlapMinutes = (intervals1: MeetingInterval[], intervals2: MeetingInterval[]): number => {
+    let minutes = 0;
+    for (const a of intervals1) {
+        for (const b of intervals2) {
+            if (a.day === b.day) {
+                minutes += Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+            }
+        }
+    }
+    return minutes;
+};
+
+// Bit mask of the days (bit 0 = Monday) a set of intervals falls on
+export const getDayMask = (intervals: MeetingInterval[]): number => {
+    return intervals.reduce((mask, interval) => mask | (1 << interval.day), 0);
+};
+
+export const countBits = (mask: number): number => {
+    let count = 0;
+    for (let value = mask; value !== 0; value &= value - 1) count++;
+    return count;
+};
+
+// Fixed-size bit set stored in 32-bit words
+export type Bitset = Uint32Array;
+
+export const createBitset = (size: number): Bitset => new Uint32Array(Math.ceil(size / 32));
+
+export const setBit = (bitset: Bitset, index: number): void => {
+    bitset[index >>> 5] |= 1 << (index & 31);
+};
+
+export const hasBit = (bitset: Bitset, index: number): boolean => {
+    return (bitset[index >>> 5] & (1 << (index & 31))) !== 0;
+};
+
+// Returns a new bit set with the bits of both inputs
+export const unionBitsets = (a: Bitset, b: Bitset): Bitset => {
+    const result = new Uint32Array(a.length);
+    for (let i = 0; i < a.length; i++) {
+        result[i] = a[i] | b[i];
+    }
+    return result;
+};
+
+export interface ConflictMatrix {
+    size: number;
+    intervals: MeetingInterval[][]; // Merged intervals of each item
+    dayMasks: number[];
+    conflicts: Bitset[];            // conflicts[i] has bit j set when items i and j overlap
+}
+
+/**
+ * Precomputes pairwise time conflicts between groups of sections.
+ * Each item is a set of sections taken together (e.g. a lecture plus its lab).
+ * @param items - Section groups to compare
+ * @returns Intervals, day masks and a conflict bit set for every item
+ */
+export const buildConflictMatrix = (items: CourseSection[][]): ConflictMatrix => {
+    const size = items.length;
+    const intervals = items.map(sections => sections.flatMap(getSectionIntervals));
+    const dayMasks = intervals.map(getDayMask);
+    const conflicts = items.map(() => createBitset(size));
+
+    for (let i = 0; i < size; i++) {
+        for (let j = i + 1; j < size; j++) {
+            // Items on disjoint days can never overlap
+            if ((dayMasks[i] & dayMasks[j]) === 0) continue;
+            if (intervalsOverlap(intervals[i], intervals[j])) {
+                setBit(conflicts[i], j);
+                setBit(conflicts[j], i);
+            }
+        }
+    }
+
+    return { size, intervals, dayMasks, conflicts };
+};
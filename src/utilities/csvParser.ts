@@ -1,3 +1,24 @@
+import { tokenizeCsv, isBlankRecord, CsvSyntaxError } from './csvTokenizer';
+import { getSectionIntervals, intervalsOverlap } from './conflictMatrix';
+import { timeToMinutes } from './timeUtils';
+import {
+    isErrorDiagnostic,
+    type DiagnosticCode,
+    type DiagnosticSeverity,
+    type ParseDiagnostic
+} from './parseDiagnostics';
+import {
+    detectColumnMapping,
+    getColumnLabel,
+    getMeetingColumnKey,
+    getOrdinal,
+    mergeColumnAliases,
+    type ColumnAliases,
+    type ColumnDetectionResult,
+    type ColumnKey,
+    type ColumnMapping
+} from './columnMapping';
+
 // Types for the course data structure
 export interface CourseTime {
     startTime: string;
@@ -15,13 +36,38 @@ export interface CourseSection {
     subject: string;
     courseCode: string;
     crn: string;
-    meetings: [CourseMeeting, CourseMeeting]; // Exactly two meetings
+    meetings: CourseMeeting[]; // At least one meeting
+    instructor?: string;
+    campus?: string;
+    building?: string;
+    room?: string;
+    credits?: number;
+    capacity?: number;
+    enrolled?: number;
+    waitlist?: number;
+    startDate?: string; // YYYY-MM-DD
+    endDate?: string;   // YYYY-MM-DD
+    component?: string; // e.g. Lecture, Lab, Tutorial; one section of each component is required
+    linkGroup?: string; // Sections of different components must share a link group when both have one
 }
 
+// Component assumed for sections that do not list one
+export const DEFAULT_COMPONENT = 'Lecture';
+
+export type ParseMode = 'strict' | 'lenient';
+
 export interface ValidationResult {
     isValid: boolean;
-    errors: string[];
+    diagnostics: ParseDiagnostic[];
     data: CourseSection[] | null;
+    columns: ColumnDetectionResult | null;
+    skippedLines: number[]; // Lines of rows left out in lenient mode
+}
+
+export interface ParseOptions {
+    aliases?: Partial<ColumnAliases>;
+    columnMapping?: ColumnMapping;
+    mode?: ParseMode; // 'lenient' imports the valid rows and skips the rest
 }
 
 // Validation helper functions
@@ -57,6 +103,26 @@ const isValidMeetingType = (type: string): type is 'Online' | 'In-person' => {
     return type === 'Online' || type === 'In-person';
 };
 
+const isValidNumber = (value: string): boolean => {
+    return /^\d+(\.\d+)?$/.test(value);
+};
+
+// Whether two meetings share some time on the same day, which includes exact repeats
+const meetingsOverlap = (meeting1: CourseMeeting, meeting2: CourseMeeting): boolean => {
+    return meeting1.day === meeting2.day &&
+        Math.max(timeToMinutes(meeting1.time.startTime), timeToMinutes(meeting2.time.startTime)) <
+        Math.min(timeToMinutes(meeting1.time.endTime), timeToMinutes(meeting2.time.endTime));
+};
+
+// Section details that every row of a CRN must agree on; campus, building and room may change per meeting
+const sharedSectionFields = ['instructor', 'component', 'linkGroup', 'startDate', 'endDate'] as const;
+
+const isValidDate = (value: string): boolean => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
 const parseTimeString = (timeString: string): CourseTime => {
     const [start, end] = timeString.split('-');
     return {
@@ -67,111 +133,234 @@ const parseTimeString = (timeString: string): CourseTime => {
 
 /**
  * Parses and validates a CSV string containing course information.
+ * Columns are located by header name using the alias table, so their order
+ * does not matter and unknown columns are ignored.
+ * In strict mode any row error rejects the whole file; in lenient mode
+ * invalid rows are skipped and the valid ones are returned.
  * @param csvContent - The CSV content as a string
- * @returns ValidationResult containing parsing results and any validation errors
+ * @param options - Extra header aliases, manually assigned columns and parse mode
+ * @returns ValidationResult containing parsing results and diagnostics
  */
-export const parseCourseCsv = (csvContent: string): ValidationResult => {
+export const parseCourseCsv = (csvContent: string, options: ParseOptions = {}): ValidationResult => {
+    const mode = options.mode ?? 'strict';
     const result: ValidationResult = {
         isValid: true,
-        errors: [],
-        data: null
+        diagnostics: [],
+        data: null,
+        columns: null,
+        skippedLines: []
+    };
+
+    const report = (diagnostic: Omit<ParseDiagnostic, 'severity'> & { severity?: DiagnosticSeverity }) => {
+        result.diagnostics.push({ severity: 'error', ...diagnostic });
     };
 
     try {
-        // Split into lines and remove empty lines
-        const lines = csvContent
-            .split('\n')
-            .map(line => line.trim())
-            .filter(line => line.length > 0);
-
-        // Validate header
-        const expectedHeader = 'CourseName,Subject,CourseCode,FirstMeetingDay,FirstMeetingTime,FirstMeetingType,SecondMeetingDay,SecondMeetingTime,SecondMeetingType,CRN';
-        const header = lines[0];
-
-        if (header !== expectedHeader) {
-            result.errors.push('Invalid CSV header format');
+        // Tokenize into records and drop blank lines
+        const records = tokenizeCsv(csvContent).filter(record => !isBlankRecord(record));
+
+        if (records.length === 0) {
+            report({ line: null, column: null, code: 'EMPTY_FILE', value: null, message: 'CSV file is empty' });
             result.isValid = false;
             return result;
         }
 
-        // Parse and validate each line
-        const parsedCourses: CourseSection[] = [];
-        const crnSet = new Set<string>(); // For detecting duplicate CRNs
+        // Locate columns by header name
+        const headerRecord = records[0];
+        const columns = detectColumnMapping(
+            headerRecord.fields.map(field => field.trim()),
+            mergeColumnAliases(options.aliases),
+            options.columnMapping
+        );
+        result.columns = columns;
+
+        columns.missing.forEach(key => {
+            report({
+                line: headerRecord.line,
+                column: null,
+                code: 'MISSING_COLUMN',
+                value: getColumnLabel(key),
+                message: `Missing required column "${getColumnLabel(key)}"`
+            });
+        });
+        columns.unrecognized.forEach(index => {
+            report({
+                line: headerRecord.line,
+                column: columns.headers[index],
+                code: 'UNKNOWN_COLUMN',
+                severity: 'warning',
+                value: columns.headers[index],
+                message: `Ignoring unrecognised column "${columns.headers[index]}"`
+            });
+        });
+
+        if (columns.missing.length > 0) {
+            result.isValid = false;
+            return result;
+        }
 
-        for (let i = 1; i < lines.length; i++) {
-            const lineNumber = i + 1;
-            const line = lines[i];
-            const fields = line.split(',');
+        // Parse and validate each record
+        const parsedCourses: CourseSection[] = [];
+        const sectionsByCrn = new Map<string, CourseSection>(); // For grouping and duplicate detection
+
+        for (let i = 1; i < records.length; i++) {
+            const lineNumber = records[i].line;
+            const fields = records[i].fields.map(field => field.trim());
+
+            const reportRow = (key: ColumnKey | null, code: DiagnosticCode, value: string | null, message: string) => {
+                const index = key === null ? undefined : columns.mapping[key];
+                report({
+                    line: lineNumber,
+                    column: index === undefined ? null : columns.headers[index],
+                    code,
+                    value,
+                    message
+                });
+                result.skippedLines.push(lineNumber);
+            };
 
             // Validate field count
-            if (fields.length !== 10) {
-                result.errors.push(`Line ${lineNumber}: Invalid number of fields`);
+            if (fields.length !== columns.headers.length) {
+                reportRow(
+                    null,
+                    'FIELD_COUNT',
+                    String(fields.length),
+                    `Invalid number of fields (expected ${columns.headers.length}, found ${fields.length})`
+                );
                 continue;
             }
 
-            const [
-                courseName,
-                subject,
-                courseCode,
-                firstDay,
-                firstTime,
-                firstType,
-                secondDay,
-                secondTime,
-                secondType,
-                crn
-            ] = fields;
+            const getField = (key: ColumnKey): string => {
+                const index = columns.mapping[key];
+                return index === undefined ? '' : fields[index];
+            };
+
+            const courseName = getField('courseName');
+            const subject = getField('subject');
+            const courseCode = getField('courseCode');
+            const crn = getField('crn');
 
             // Validate required fields
-            if (!courseName || !subject || !courseCode || !crn) {
-                result.errors.push(`Line ${lineNumber}: Missing required fields`);
+            const missingField = (['courseName', 'subject', 'courseCode', 'crn'] as const)
+                .find(key => !getField(key));
+            if (missingField) {
+                reportRow(missingField, 'MISSING_FIELD', null, `Missing required field ${getColumnLabel(missingField)}`);
                 continue;
             }
 
-            // Validate CRN uniqueness and format
-            if (crnSet.has(crn)) {
-                result.errors.push(`Line ${lineNumber}: Duplicate CRN ${crn}`);
-                continue;
-            }
+            // Validate CRN format
             if (!/^\d{5}$/.test(crn)) {
-                result.errors.push(`Line ${lineNumber}: Invalid CRN format ${crn}`);
+                reportRow('crn', 'INVALID_CRN', crn, `Invalid CRN format ${crn}`);
                 continue;
             }
-            crnSet.add(crn);
 
             // Validate course code format
             if (!/^\d{3}$/.test(courseCode)) {
-                result.errors.push(`Line ${lineNumber}: Invalid course code format ${courseCode}`);
+                reportRow('courseCode', 'INVALID_COURSE_CODE', courseCode, `Invalid course code format ${courseCode}`);
                 continue;
             }
 
-            // Validate days
-            if (!isValidDay(firstDay)) {
-                result.errors.push(`Line ${lineNumber}: Invalid first meeting day ${firstDay}`);
+            // Validate optional metadata
+            const numericFields = ['credits', 'capacity', 'enrolled', 'waitlist'] as const;
+            const invalidNumber = numericFields.find(key => getField(key) && !isValidNumber(getField(key)));
+            if (invalidNumber) {
+                reportRow(
+                    invalidNumber,
+                    'INVALID_NUMBER',
+                    getField(invalidNumber),
+                    `Invalid ${getColumnLabel(invalidNumber).toLowerCase()} ${getField(invalidNumber)}`
+                );
                 continue;
             }
-            if (!isValidDay(secondDay)) {
-                result.errors.push(`Line ${lineNumber}: Invalid second meeting day ${secondDay}`);
+
+            const startDate = getField('startDate');
+            const endDate = getField('endDate');
+            if (startDate && !isValidDate(startDate)) {
+                reportRow('startDate', 'INVALID_DATE', startDate, `Invalid start date ${startDate} (expected YYYY-MM-DD)`);
                 continue;
             }
-
-            // Validate time formats
-            if (!isValidTimeFormat(firstTime)) {
-                result.errors.push(`Line ${lineNumber}: Invalid first meeting time format ${firstTime}`);
+            if (endDate && !isValidDate(endDate)) {
+                reportRow('endDate', 'INVALID_DATE', endDate, `Invalid end date ${endDate} (expected YYYY-MM-DD)`);
                 continue;
             }
-            if (!isValidTimeFormat(secondTime)) {
-                result.errors.push(`Line ${lineNumber}: Invalid second meeting time format ${secondTime}`);
+            if (startDate && endDate && endDate < startDate) {
+                reportRow('endDate', 'INVALID_DATE', endDate, `End date ${endDate} is before start date ${startDate}`);
                 continue;
             }
 
-            // Validate meeting types
-            if (!isValidMeetingType(firstType)) {
-                result.errors.push(`Line ${lineNumber}: Invalid first meeting type ${firstType}`);
+            // Validate each meeting column group, skipping groups left entirely blank
+            const meetings: CourseMeeting[] = [];
+            let hasMeetingError = false;
+
+            for (let n = 1; n <= columns.meetingCount && !hasMeetingError; n++) {
+                const dayKey = getMeetingColumnKey(n, 'day');
+                const timeKey = getMeetingColumnKey(n, 'time');
+                const typeKey = getMeetingColumnKey(n, 'type');
+                const day = getField(dayKey);
+                const time = getField(timeKey);
+                const type = getField(typeKey);
+                const ordinal = getOrdinal(n).toLowerCase();
+
+                if (!day && !time && !type) continue;
+
+                hasMeetingError = true;
+                if (!isValidDay(day)) {
+                    reportRow(dayKey, 'INVALID_DAY', day, `Invalid ${ordinal} meeting day ${day}`);
+                } else if (!isValidTimeFormat(time)) {
+                    reportRow(timeKey, 'INVALID_TIME', time, `Invalid ${ordinal} meeting time format ${time}`);
+                } else if (!isValidMeetingType(type)) {
+                    reportRow(typeKey, 'INVALID_MEETING_TYPE', type, `Invalid ${ordinal} meeting type ${type}`);
+                } else {
+                    hasMeetingError = false;
+                    meetings.push({
+                        day,
+                        time: parseTimeString(time),
+                        type
+                    });
+                }
+            }
+
+            if (hasMeetingError) continue;
+            if (meetings.length === 0) {
+                reportRow(null, 'NO_MEETINGS', crn, `No meetings listed for CRN ${crn}`);
                 continue;
             }
-            if (!isValidMeetingType(secondType)) {
-                result.errors.push(`Line ${lineNumber}: Invalid second meeting type ${secondType}`);
+
+            // Rows sharing a CRN list further meetings of the same section
+            const existingSection = sectionsByCrn.get(crn);
+            if (existingSection) {
+                if (
+                    existingSection.courseName !== courseName ||
+                    existingSection.subject !== subject ||
+                    existingSection.courseCode !== courseCode
+                ) {
+                    reportRow('crn', 'DUPLICATE_CRN', crn, `Duplicate CRN ${crn}`);
+                    continue;
+                }
+                const differingField = sharedSectionFields.find(key => (existingSection[key] ?? '') !== getField(key));
+                if (differingField) {
+                    reportRow(
+                        differingField,
+                        'DUPLICATE_CRN',
+                        getField(differingField),
+                        `Duplicate CRN ${crn} with a different ${getColumnLabel(differingField).toLowerCase()} ` +
+                        `(${getField(differingField) || 'none'} instead of ${existingSection[differingField] || 'none'})`
+                    );
+                    continue;
+                }
+                const repeatedMeeting = meetings.find(meeting =>
+                    existingSection.meetings.some(existing => meetingsOverlap(existing, meeting))
+                );
+                if (repeatedMeeting) {
+                    reportRow(
+                        'crn',
+                        'DUPLICATE_CRN',
+                        crn,
+                        `Duplicate CRN ${crn}: its ${repeatedMeeting.day} meeting repeats or overlaps one already listed`
+                    );
+                    continue;
+                }
+                existingSection.meetings.push(...meetings);
                 continue;
             }
 
@@ -181,30 +370,45 @@ export const parseCourseCsv = (csvContent: string): ValidationResult => {
                 subject,
                 courseCode,
                 crn,
-                meetings: [
-                    {
-                        day: firstDay,
-                        time: parseTimeString(firstTime),
-                        type: firstType as 'Online' | 'In-person'
-                    },
-                    {
-                        day: secondDay,
-                        time: parseTimeString(secondTime),
-                        type: secondType as 'Online' | 'In-person'
-                    }
-                ]
+                meetings
             };
 
+            // Only set metadata that the file actually provides
+            const optionalText = [
+                'instructor',
+                'campus',
+                'building',
+                'room',
+                'startDate',
+                'endDate',
+                'component',
+                'linkGroup'
+            ] as const;
+            optionalText.forEach(key => {
+                if (getField(key)) courseSection[key] = getField(key);
+            });
+            numericFields.forEach(key => {
+                if (getField(key)) courseSection[key] = Number(getField(key));
+            });
+
+            sectionsByCrn.set(crn, courseSection);
             parsedCourses.push(courseSection);
         }
 
         // Set final results
-        result.isValid = result.errors.length === 0;
+        const hasErrors = result.diagnostics.some(isErrorDiagnostic);
+        result.isValid = mode === 'lenient' ? parsedCourses.length > 0 || !hasErrors : !hasErrors;
         result.data = result.isValid ? parsedCourses : null;
 
     } catch (error) {
         result.isValid = false;
-        result.errors.push(`Parsing error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        report({
+            line: error instanceof CsvSyntaxError ? error.line : null,
+            column: null,
+            code: error instanceof CsvSyntaxError ? 'SYNTAX_ERROR' : 'UNKNOWN_ERROR',
+            value: null,
+            message: `Parsing error: ${error instanceof Error ? error.message : 'Unknown error'}`
+        });
         result.data = null;
     }
 
@@ -257,6 +461,54 @@ export const getCourseSections = (
     );
 };
 
+/**
+ * Helper function to summarise when a section meets
+ * @param section - Course section
+ * @returns Summary such as "Mon 13:00-14:50 (Online), Thu 13:00-14:50 (In-person)"
+ */
+export const formatMeetingSummary = (section: CourseSection): string => {
+    return section.meetings
+        .map(meeting =>
+            `${meeting.day.slice(0, 3)} ${meeting.time.startTime}-${meeting.time.endTime} (${meeting.type})`
+        )
+        .join(', ');
+};
+
+/**
+ * Helper function to check whether two sections of the same course may be taken together
+ * @param section1 - First course section
+ * @param section2 - Second course section
+ * @returns false when both sections declare different link groups
+ */
+export const areSectionsLinked = (section1: CourseSection, section2: CourseSection): boolean => {
+    if (!section1.linkGroup || !section2.linkGroup) return true;
+    return section1.linkGroup === section2.linkGroup;
+};
+
+/**
+ * Helper function to describe where a section is held
+ * @param section - Course section
+ * @returns Location such as "Main Campus, Building A, Room 204", or null if unknown
+ */
+export const getSectionLocation = (section: CourseSection): string | null => {
+    const parts = [
+        section.campus,
+        section.building,
+        section.room ? `Room ${section.room}` : undefined
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : null;
+};
+
+/**
+ * Helper function to check whether a section has open seats
+ * @param section - Course section
+ * @returns false only when capacity and enrolment are known and the section is full
+ */
+export const hasOpenSeats = (section: CourseSection): boolean => {
+    if (section.capacity === undefined || section.enrolled === undefined) return true;
+    return section.enrolled < section.capacity;
+};
+
 /**
  * Helper function to check for time conflicts between course sections
  * @param section1 - First course section
@@ -267,33 +519,8 @@ export const hasTimeConflict = (
     section1: CourseSection,
     section2: CourseSection
 ): boolean => {
-    for (const meeting1 of section1.meetings) {
-        for (const meeting2 of section2.meetings) {
-            if (meeting1.day !== meeting2.day) continue;
-
-            // Parse start times
-            const [start1Hour, start1Min] = meeting1.time.startTime.split(':').map(Number);
-            const startTime1 = start1Hour * 60 + start1Min;
-
-            // Parse end times correctly
-            const [end1Hour, end1Min] = meeting1.time.endTime.split(':').map(Number);
-            const endTime1 = end1Hour * 60 + end1Min;
-
-            // Parse second meeting times
-            const [start2Hour, start2Min] = meeting2.time.startTime.split(':').map(Number);
-            const startTime2 = start2Hour * 60 + start2Min;
-
-            const [end2Hour, end2Min] = meeting2.time.endTime.split(':').map(Number);
-            const endTime2 = end2Hour * 60 + end2Min;
-
-            // Check for overlap
-            // Two time ranges overlap if one starts before the other ends
-            if (Math.max(startTime1, startTime2) < Math.min(endTime1, endTime2)) {
-                return true;
-            }
-        }
-    }
-    return false;
+    // Meetings are normalised to minute intervals once per section and cached
+    return intervalsOverlap(getSectionIntervals(section1), getSectionIntervals(section2));
 };
 
 // Example usage:
@@ -301,6 +528,12 @@ export const hasTimeConflict = (
 const csvContent = `CourseName,Subject,CourseCode,FirstMeetingDay,FirstMeetingTime,FirstMeetingType,SecondMeetingDay,SecondMeetingTime,SecondMeetingType,CRN
 Software Testing and Deployment,CPRG,305,Monday,13:00-14:50,Online,Thursday,13:00-14:50,In-person,30922`;
 
+// Sections can also be listed one meeting per row, grouped by CRN:
+const perMeetingCsv = `CRN,Subject,CourseCode,CourseName,Day,Time,Type
+30923,MATH,237,Calculus,Monday,09:00-09:50,In-person
+30923,MATH,237,Calculus,Wednesday,09:00-09:50,In-person
+30923,MATH,237,Calculus,Friday,09:00-09:50,In-person`;
+
 const result = parseCourseCsv(csvContent);
 if (result.isValid && result.data) {
   const courses = result.data;
@@ -308,6 +541,6 @@ if (result.isValid && result.data) {
   const sections = getCourseSections(courses, 'CPRG', '305');
   // Use the parsed data...
 } else {
-  console.error('Validation errors:', result.errors);
+  console.error('Validation errors:', result.diagnostics.map(formatDiagnostic));
 }
 */
\ No newline at end of file
@@ -0,0 +1,121 @@
+// A single CSV record along with the physical line it started on
+export interface CsvRecord {
+    fields: string[];
+    line: number;
+}
+
+// Raised when the content cannot be split into records
+export class CsvSyntaxError extends Error {
+    line: number;
+
+    constructor(message: string, line: number) {
+        super(message);
+        this.name = 'CsvSyntaxError';
+        this.line = line;
+    }
+}
+
+const BYTE_ORDER_MARK = '\uFEFF';
+
+/**
+ * Splits CSV content into records following RFC 4180.
+ * Handles quoted fields, escaped double quotes (""), embedded commas and
+ * line breaks inside quotes, and LF, CRLF or bare CR line endings.
+ * @param csvContent - The raw CSV content
+ * @returns Array of records, each tagged with the 1-based line it starts on
+ */
+export const tokenizeCsv = (csvContent: string): CsvRecord[] => {
+    const content = csvContent.startsWith(BYTE_ORDER_MARK)
+        ? csvContent.slice(BYTE_ORDER_MARK.length)
+        : csvContent;
+
+    const records: CsvRecord[] = [];
+    let fields: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let line = 1;
+    let recordLine = 1;
+    let quoteStartLine = 1;
+
+    const endField = () => {
+        fields.push(field);
+        field = '';
+    };
+
+    const endRecord = () => {
+        endField();
+        records.push({ fields, line: recordLine });
+        fields = [];
+    };
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+
+        if (inQuotes) {
+            if (char === '"') {
+                if (content[i + 1] === '"') {
+                    // Escaped double quote
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                if (char === '\n' || (char === '\r' && content[i + 1] !== '\n')) {
+                    line++;
+                }
+                field += char;
+            }
+            continue;
+        }
+
+        switch (char) {
+            case '"':
+                // Quotes only open a quoted section at the start of a field
+                if (field.trim().length === 0) {
+                    field = '';
+                    inQuotes = true;
+                    quoteStartLine = line;
+                } else {
+                    field += char;
+                }
+                break;
+            case ',':
+                endField();
+                break;
+            case '\r':
+                if (content[i + 1] === '\n') i++;
+                endRecord();
+                line++;
+                recordLine = line;
+                break;
+            case '\n':
+                endRecord();
+                line++;
+                recordLine = line;
+                break;
+            default:
+                field += char;
+        }
+    }
+
+    if (inQuotes) {
+        throw new CsvSyntaxError('Unterminated quoted field', quoteStartLine);
+    }
+
+    // Flush the last record unless the content ended with a line break
+    if (field.length > 0 || fields.length > 0) {
+        endRecord();
+    }
+
+    return records;
+};
+
+/**
+ * Checks whether a record contains nothing but whitespace
+ * @param record - The record to check
+ * @returns boolean indicating if the record is blank
+ */
+export const isBlankRecord = (record: CsvRecord): boolean => {
+    return record.fields.every(field => field.trim().length === 0);
+};
@@ -0,0 +1,20 @@
+// How long the object URL stays valid after the download starts
+const REVOKE_DELAY_MS = 1000;
+
+/**
+ * Saves content as a file through a temporary download link
+ * @param content - File contents
+ * @param fileName - Name offered to the user
+ * @param mimeType - Type of the file, e.g. "text/calendar"
+ */
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string): void => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Some browsers start the download after click() returns, so the URL must outlive it
+    setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
@@ -0,0 +1,219 @@
+import { getSectionLocation, type CourseSection } from './csvParser';
+import type { ScheduleCombination } from './scheduleGenerator';
+import { DAYS_OF_WEEK, timeToMinutes } from './timeUtils';
+
+// A stretch of the term without classes, e.g. a holiday or reading week
+export interface TermBreak {
+    id: string;
+    label: string;
+    startDate: string;  // YYYY-MM-DD
+    endDate: string;    // YYYY-MM-DD, the same as startDate for a single day
+}
+
+export interface CalendarExportOptions {
+    termStart: string;  // YYYY-MM-DD, used for sections without their own start date
+    termEnd: string;    // YYYY-MM-DD, used for sections without their own end date
+    termBreaks: TermBreak[];
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MAX_LINE_OCTETS = 75;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+let nextTermBreakId = 1;
+
+export const createTermBreak = (startDate: string, endDate = startDate): TermBreak => ({
+    id: `break-${Date.now().toString(36)}-${nextTermBreakId++}`,
+    label: '',
+    startDate,
+    endDate
+});
+
+// Dates are handled as whole days since the epoch so DST never shifts them
+const toDayNumber = (date: string): number => {
+    const [year, month, day] = date.split('-').map(Number);
+    return Math.floor(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+};
+
+// 0 = Monday ... 6 = Sunday; 1 January 1970 was a Thursday
+const getWeekday = (dayNumber: number): number => (dayNumber + 3) % 7;
+
+const formatDate = (dayNumber: number): string => {
+    return new Date(dayNumber * MS_PER_DAY).toISOString().slice(0, 10).replace(/-/g, '');
+};
+
+// Floating local time, so calendars show the class at the same clock time in any zone
+const formatLocalDateTime = (dayNumber: number, minutes: number): string => {
+    const hours = String(Math.floor(minutes / 60)).padStart(2, '0');
+    const mins = String(minutes % 60).padStart(2, '0');
+    return `${formatDate(dayNumber)}T${hours}${mins}00`;
+};
+
+const formatUtcDateTime = (date: Date): string => {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+// TEXT values escape backslashes, separators and line breaks (RFC 5545 section 3.3.11)
+const escapeText = (value: string): string => {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+};
+
+// Content lines longer than 75 octets continue on lines starting with a space
+const foldLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const char of line) {
+        const charOctets = encoder.encode(char).length;
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + charOctets > limit) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += charOctets;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+export const isValidDateString = (date: string): boolean => {
+    return DATE_PATTERN.test(date) && !Number.isNaN(Date.parse(date));
+};
+
+/**
+ * Checks the options can produce a calendar: a term that ends after it starts
+ * and breaks with well-formed dates
+ * @param options - Term dates and breaks
+ * @returns A message describing the first problem, or null when they are valid
+ */
+export const validateCalendarExportOptions = (options: CalendarExportOptions): string | null => {
+    if (!isValidDateString(options.termStart) || !isValidDateString(options.termEnd)) {
+        return 'Enter the first and last day of the term';
+    }
+    if (options.termEnd < options.termStart) {
+        return 'The term ends before it starts';
+    }
+    const invalidBreak = options.termBreaks.find(termBreak =>
+        !isValidDateString(termBreak.startDate) ||
+        !isValidDateString(termBreak.endDate) ||
+        termBreak.endDate < termBreak.startDate
+    );
+    if (invalidBreak) {
+        return `${invalidBreak.label || 'A break'} needs a start date on or before its end date`;
+    }
+    return null;
+};
+
+// Days each break removes, as day numbers
+const getBreakDays = (termBreaks: TermBreak[]): Set<number> => {
+    const days = new Set<number>();
+    termBreaks.forEach(termBreak => {
+        for (let day = toDayNumber(termBreak.startDate); day <= toDayNumber(termBreak.endDate); day++) {
+            days.add(day);
+        }
+    });
+    return days;
+};
+
+const getSectionSummary = (section: CourseSection): string => {
+    const component = section.component ? ` ${section.component}` : '';
+    return `${section.subject} ${section.courseCode}${component} - ${section.courseName}`;
+};
+
+const getSectionDescription = (section: CourseSection, meetingType: string): string => {
+    return [
+        `CRN: ${section.crn}`,
+        `Course: ${section.courseName} (${section.subject} ${section.courseCode})`,
+        `Delivery: ${meetingType}`,
+        section.instructor && `Instructor: ${section.instructor}`
+    ].filter(Boolean).join('\n');
+};
+
+/**
+ * Builds an RFC 5545 calendar with one weekly recurring event per meeting.
+ * Each meeting repeats from its first occurrence in the section's term (or the
+ * given term when the section has no dates) until the term ends; meetings that
+ * fall in a break are excluded.
+ * @param combination - Schedule to export
+ * @param options - Term dates and breaks
+ * @param now - Time stamped on the events
+ * @returns The calendar as .ics text with CRLF line endings
+ */
+export const createScheduleCalendar = (
+    combination: ScheduleCombination,
+    options: CalendarExportOptions,
+    now: Date = new Date()
+): string => {
+    const breakDays = getBreakDays(options.termBreaks);
+    const timestamp = formatUtcDateTime(now);
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Sait Course Selection//Schedule Export//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(`Schedule ${combination.id}`)}`
+    ];
+
+    combination.sections.forEach(section => {
+        const termStart = toDayNumber(section.startDate ?? options.termStart);
+        const termEnd = toDayNumber(section.endDate ?? options.termEnd);
+
+        section.meetings.forEach((meeting, index) => {
+            const weekday = DAYS_OF_WEEK.indexOf(meeting.day as typeof DAYS_OF_WEEK[number]);
+            if (weekday === -1) return;
+
+            const firstDay = termStart + ((weekday - getWeekday(termStart) + 7) % 7);
+            if (firstDay > termEnd) return;
+
+            const start = timeToMinutes(meeting.time.startTime);
+            const end = timeToMinutes(meeting.time.endTime);
+            const excludedDays: number[] = [];
+            for (let day = firstDay; day <= termEnd; day += 7) {
+                if (breakDays.has(day)) excludedDays.push(day);
+            }
+            const location = meeting.type === 'Online' ? 'Online' : getSectionLocation(section);
+
+            lines.push(
+                'BEGIN:VEVENT',
+                `UID:${combination.id}-${section.crn}-${index}@sait-course-selection`,
+                `DTSTAMP:${timestamp}`,
+                `DTSTART:${formatLocalDateTime(firstDay, start)}`,
+                `DTEND:${formatLocalDateTime(firstDay, end)}`,
+                `RRULE:FREQ=WEEKLY;UNTIL=${formatLocalDateTime(termEnd, 23 * 60 + 59)}`,
+                ...(excludedDays.length > 0
+                    ? [`EXDATE:${excludedDays.map(day => formatLocalDateTime(day, start)).join(',')}`]
+                    : []),
+                `SUMMARY:${escapeText(getSectionSummary(section))}`,
+                ...(location ? [`LOCATION:${escapeText(location)}`] : []),
+                `DESCRIPTION:${escapeText(getSectionDescription(section, meeting.type))}`,
+                `CATEGORIES:${escapeText(meeting.type)}`,
+                'END:VEVENT'
+            );
+        });
+    });
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Earliest start and latest end date listed by the sections, to suggest as the term
+ * @param sections - Sections of the schedule
+ * @returns The dates, or empty strings when no section lists them
+ */
+export const getSuggestedTermDates = (sections: CourseSection[]): { termStart: string; termEnd: string } => {
+    const startDates = sections.map(section => section.startDate).filter((date): date is string => Boolean(date)).sort();
+    const endDates = sections.map(section => section.endDate).filter((date): date is string => Boolean(date)).sort();
+    return {
+        termStart: startDates[0] ?? '',
+        termEnd: endDates[endDates.length - 1] ?? ''
+    };
+};
\ No newline at end of file
@@ -0,0 +1,44 @@
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type DiagnosticCode =
+    | 'EMPTY_FILE'
+    | 'SYNTAX_ERROR'
+    | 'MISSING_COLUMN'
+    | 'UNKNOWN_COLUMN'
+    | 'FIELD_COUNT'
+    | 'MISSING_FIELD'
+    | 'INVALID_CRN'
+    | 'DUPLICATE_CRN'
+    | 'INVALID_COURSE_CODE'
+    | 'INVALID_DAY'
+    | 'INVALID_TIME'
+    | 'INVALID_MEETING_TYPE'
+    | 'NO_MEETINGS'
+    | 'INVALID_NUMBER'
+    | 'INVALID_DATE'
+    | 'UNKNOWN_ERROR';
+
+// A single machine-readable problem found while parsing a course CSV
+export interface ParseDiagnostic {
+    line: number | null;      // 1-based line in the file, null when not tied to a line
+    column: string | null;    // Header of the offending column, if any
+    code: DiagnosticCode;
+    severity: DiagnosticSeverity;
+    value: string | null;     // The offending cell value, if any
+    message: string;
+}
+
+export const isErrorDiagnostic = (diagnostic: ParseDiagnostic): boolean => {
+    return diagnostic.severity === 'error';
+};
+
+/**
+ * Formats a diagnostic as a single line of text, e.g. for notifications or logs
+ * @param diagnostic - The diagnostic to format
+ * @returns Human readable description including the line number
+ */
+export const formatDiagnostic = (diagnostic: ParseDiagnostic): string => {
+    return diagnostic.line === null
+        ? diagnostic.message
+        : `Line ${diagnostic.line}: ${diagnostic.message}`;
+};
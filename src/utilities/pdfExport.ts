@@ -0,0 +1,77 @@
+// A4 landscape in PDF points, with a margin around the image
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const PAGE_MARGIN = 28;
+
+const encoder = new TextEncoder();
+
+// Decodes the base64 payload of a data URL
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+    const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+/**
+ * Builds a single page PDF showing a canvas as a JPEG image, scaled to fit an
+ * A4 landscape page. Only the few objects a viewer needs are written.
+ * @param canvas - Image to embed
+ * @returns The PDF file as bytes
+ */
+export const createCanvasPdf = (canvas: HTMLCanvasElement): Uint8Array => {
+    const jpeg = dataUrlToBytes(canvas.toDataURL('image/jpeg', 0.92));
+    const scale = Math.min(
+        (PAGE_WIDTH - PAGE_MARGIN * 2) / canvas.width,
+        (PAGE_HEIGHT - PAGE_MARGIN * 2) / canvas.height
+    );
+    const width = canvas.width * scale;
+    const height = canvas.height * scale;
+    const x = (PAGE_WIDTH - width) / 2;
+    const y = (PAGE_HEIGHT - height) / 2;
+    const content = `q ${width.toFixed(2)} 0 0 ${height.toFixed(2)} ${x.toFixed(2)} ${y.toFixed(2)} cm /Im0 Do Q`;
+
+    const objects: Array<Array<string | Uint8Array>> = [
+        ['<< /Type /Catalog /Pages 2 0 R >>'],
+        ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+        [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+            '/Resources << /XObject << /Im0 5 0 R >> >> /Contents 4 0 R >>'],
+        [`<< /Length ${content.length} >>\nstream\n${content}\nendstream`],
+        [`<< /Type /XObject /Subtype /Image /Width ${canvas.width} /Height ${canvas.height} ` +
+            `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`,
+            jpeg, '\nendstream']
+    ];
+
+    const parts: Uint8Array[] = [];
+    let length = 0;
+    const write = (part: string | Uint8Array) => {
+        const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+        parts.push(bytes);
+        length += bytes.length;
+    };
+
+    write('%PDF-1.4\n');
+    const offsets = objects.map((object, index) => {
+        const offset = length;
+        write(`${index + 1} 0 obj\n`);
+        object.forEach(write);
+        write('\nendobj\n');
+        return offset;
+    });
+
+    // Cross-reference entries are exactly 20 bytes each
+    const xrefOffset = length;
+    write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+    offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+    write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const pdf = new Uint8Array(length);
+    let position = 0;
+    parts.forEach(part => {
+        pdf.set(part, position);
+        position += part.length;
+    });
+    return pdf;
+};
\ No newline at end of file
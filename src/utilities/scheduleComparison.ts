@@ -0,0 +1,83 @@
+import type { CourseSection } from './csvParser';
+import type { ScheduleCombination } from './scheduleGenerator';
+import { minutesToTime } from './timeUtils';
+
+export const MAX_COMPARED_COMBINATIONS = 4;
+
+// A figure shown for every compared combination, and which direction is better
+export interface ComparisonMetric {
+    label: string;
+    getValue: (combination: ScheduleCombination) => number;
+    format: (value: number) => string;
+    better: 'higher' | 'lower' | null;
+}
+
+export const comparisonMetrics: ComparisonMetric[] = [
+    { label: 'Score', getValue: c => c.score, format: value => value.toFixed(1), better: 'higher' },
+    { label: 'Courses', getValue: c => c.courseCount, format: String, better: 'higher' },
+    { label: 'Days on campus', getValue: c => c.metrics.campusDays, format: String, better: 'lower' },
+    { label: 'Days with class', getValue: c => c.metrics.activeDays, format: String, better: 'lower' },
+    {
+        label: 'Total gap hours',
+        getValue: c => c.metrics.totalGapMinutes,
+        format: value => (value / 60).toFixed(1),
+        better: 'lower'
+    },
+    { label: 'Earliest class', getValue: c => c.metrics.earliestStart, format: minutesToTime, better: 'higher' },
+    { label: 'Latest class', getValue: c => c.metrics.latestEnd, format: minutesToTime, better: 'lower' },
+    {
+        label: 'Online ratio',
+        getValue: c => c.metrics.onlineRatio,
+        format: value => `${Math.round(value * 100)}%`,
+        better: null
+    }
+];
+
+/**
+ * Finds which of the combinations have the best value of a metric
+ * @param combinations - Compared combinations
+ * @param metric - Metric to compare
+ * @returns Indices of the best combinations, empty when all are equal or no direction is better
+ */
+export const getBestIndices = (combinations: ScheduleCombination[], metric: ComparisonMetric): Set<number> => {
+    if (!metric.better) return new Set();
+    const values = combinations.map(metric.getValue);
+    const best = metric.better === 'higher' ? Math.max(...values) : Math.min(...values);
+    if (values.every(value => value === best)) return new Set();
+    return new Set(values.flatMap((value, index) => value === best ? [index] : []));
+};
+
+const getCourseKey = (section: CourseSection) => `${section.subject}${section.courseCode}`;
+
+// Sections of each course in a combination, keyed by course
+export const getSectionsByCourse = (combination: ScheduleCombination): Map<string, CourseSection[]> => {
+    const sectionsByCourse = new Map<string, CourseSection[]>();
+    combination.sections.forEach(section => {
+        const key = getCourseKey(section);
+        if (!sectionsByCourse.has(key)) sectionsByCourse.set(key, []);
+        sectionsByCourse.get(key)?.push(section);
+    });
+    return sectionsByCourse;
+};
+
+/**
+ * Courses taken through different sections, or left out, in some of the combinations
+ * @param combinations - Compared combinations
+ * @returns Every course in any combination, in order of first appearance, with whether it differs
+ */
+export const compareCourses = (combinations: ScheduleCombination[]): Array<{ courseId: string; differs: boolean }> => {
+    const crnKeysByCourse = new Map<string, string[]>();
+    combinations.forEach((combination, index) => {
+        getSectionsByCourse(combination).forEach((sections, courseId) => {
+            if (!crnKeysByCourse.has(courseId)) {
+                crnKeysByCourse.set(courseId, new Array(combinations.length).fill(''));
+            }
+            const crnKeys = crnKeysByCourse.get(courseId);
+            if (crnKeys) crnKeys[index] = sections.map(section => section.crn).sort().join(',');
+        });
+    });
+    return Array.from(crnKeysByCourse.entries()).map(([courseId, crnKeys]) => ({
+        courseId,
+        differs: new Set(crnKeys).size > 1
+    }));
+};
@@ -0,0 +1,245 @@
+import type { CourseSection } from './csvParser';
+import type { CombinationFilter, ScheduleFilters } from '../types/filters';
+import { TIME_WINDOW_BOUNDS, combinationFilterLabels } from '../types/filters';
+import {
+    countNonConflictingSchedules,
+    getFailedFilters,
+    type ScheduleGeneratorConstraints,
+    type ScheduleGeneratorResult
+} from './scheduleGenerator';
+
+export type ScheduleChange =
+    | 'relaxFilter'
+    | 'dropCourse'
+    | 'makeOptional'
+    | 'removeLoadLimits'
+    | 'disableFilters';
+
+// A single change to the inputs that would produce schedules
+export interface ScheduleSuggestion {
+    change: ScheduleChange;
+    target: string | null;   // Course id or filter name the change applies to
+    combinations: number;    // Combinations the change would produce, up to SUGGESTION_COUNT_LIMIT
+}
+
+// Why generation found nothing, or why some selected courses never appear
+export interface ScheduleDiagnostics {
+    unavailableCourses: string[];                 // Courses with no usable section even on their own
+    conflictingCourses: Array<[string, string]>;  // Course pairs that clash in every section pairing
+    droppedCourses: string[];                     // Selected courses missing from every combination
+    candidatesChecked: number;                    // Combinations checked against the combination filters, up to SUGGESTION_COUNT_LIMIT
+    filterRejections: Record<CombinationFilter, number>;
+    suggestions: ScheduleSuggestion[];
+}
+
+// Reported while diagnostics run, since each check is a search of its own
+export interface DiagnosticsProgress {
+    checksCompleted: number;
+}
+
+// Suggestions are alternatives to each other, so only the most productive few are kept
+const MAX_SUGGESTIONS = 5;
+
+// Suggestions only need to be ranked against each other, so counting stops here
+export const SUGGESTION_COUNT_LIMIT = 1000;
+
+const getCourseId = (section: CourseSection): string => `${section.subject}${section.courseCode}`;
+
+// Keeps section filters and busy times but lets every combination filter pass
+const relaxCombinationFilters = (filters: ScheduleFilters): ScheduleFilters => ({
+    ...filters,
+    freeDays: [],
+    minDaysOff: 0,
+    deliveryMode: 'any',
+    timeWindow: TIME_WINDOW_BOUNDS,
+    dayTimeWindows: {},
+    scheduleCompactness: 'any'
+});
+
+const withoutCourse = (courseIds: Set<string>, courseId: string): Set<string> => {
+    return new Set([...courseIds].filter(id => id !== courseId));
+};
+
+/**
+ * Explains an empty or incomplete generation result: courses with no usable
+ * sections, course pairs that always clash, how many candidates each
+ * combination filter removed, and the single changes that would give results.
+ * @param allSections - All parsed course sections
+ * @param selectedCourseIds - Courses that were scheduled
+ * @param filters - Filters used for the run
+ * @param constraints - Constraints used for the run
+ * @param result - Result of the run
+ * @param onProgress - Called after each check
+ * @returns Diagnostics, or null when every selected course made it into some combination
+ */
+export const diagnoseSchedules = (
+    allSections: CourseSection[],
+    selectedCourseIds: Set<string>,
+    filters: ScheduleFilters,
+    constraints: ScheduleGeneratorConstraints,
+    result: ScheduleGeneratorResult,
+    onProgress?: (progress: DiagnosticsProgress) => void
+): ScheduleDiagnostics | null => {
+    const courseIds = [...selectedCourseIds].sort();
+    const includedCourses = new Set(
+        result.combinations.flatMap(combination => combination.sections.map(getCourseId))
+    );
+    const droppedCourses = courseIds.filter(courseId => !includedCourses.has(courseId));
+    const hasResults = result.combinations.length > 0;
+    if (hasResults && droppedCourses.length === 0) return null;
+
+    let checksCompleted = 0;
+    const countCombinations = (
+        courses: Set<string>,
+        runFilters: ScheduleFilters,
+        runConstraints: ScheduleGeneratorConstraints,
+        limit = SUGGESTION_COUNT_LIMIT
+    ): number => {
+        if (courses.size === 0) return 0;
+        const count = countNonConflictingSchedules(allSections, courses, runFilters, runConstraints, limit);
+        onProgress?.({ checksCompleted: ++checksCompleted });
+        return count;
+    };
+
+    // Whether the given courses can all be taken together, ignoring combination filters and load limits
+    const relaxedFilters = relaxCombinationFilters(filters);
+    const canTakeTogether = (courses: string[]): boolean => {
+        return countCombinations(new Set(courses), relaxedFilters, {
+            pinnedCrns: constraints.pinnedCrns,
+            excludedCrns: constraints.excludedCrns,
+            requiredCourseIds: new Set(courses)
+        }, 1) > 0;
+    };
+
+    // With results, only the dropped courses need explaining
+    const focusCourses = hasResults ? droppedCourses : courseIds;
+    const unavailableCourses = focusCourses.filter(courseId => !canTakeTogether([courseId]));
+    const availableCourses = courseIds.filter(courseId => !unavailableCourses.includes(courseId));
+
+    const conflictingCourses: Array<[string, string]> = [];
+    const checkedPairs = new Set<string>();
+    focusCourses.filter(courseId => availableCourses.includes(courseId)).forEach(courseId => {
+        availableCourses.forEach(otherId => {
+            if (otherId === courseId) return;
+            const pair: [string, string] = courseId < otherId ? [courseId, otherId] : [otherId, courseId];
+            const key = pair.join('|');
+            if (checkedPairs.has(key)) return;
+            checkedPairs.add(key);
+            if (!canTakeTogether(pair)) conflictingCourses.push(pair);
+        });
+    });
+
+    const filterRejections: Record<CombinationFilter, number> = {
+        daysOff: 0,
+        deliveryMode: 0,
+        timeWindow: 0,
+        scheduleCompactness: 0
+    };
+    let candidatesChecked = 0;
+    const suggestions: ScheduleSuggestion[] = [];
+
+    if (!hasResults) {
+        // Count what each combination filter removed; candidates failing a single
+        // filter are exactly the ones relaxing that filter would bring back
+        const soleRejections = { ...filterRejections };
+        if (filters.isEnabled) {
+            // Candidates are inspected as they are found, never built or kept
+            candidatesChecked = countNonConflictingSchedules(
+                allSections,
+                selectedCourseIds,
+                relaxedFilters,
+                constraints,
+                SUGGESTION_COUNT_LIMIT,
+                candidate => {
+                    const failed = getFailedFilters(candidate, filters);
+                    failed.forEach(filter => filterRejections[filter]++);
+                    if (failed.length === 1) soleRejections[failed[0]]++;
+                }
+            );
+            onProgress?.({ checksCompleted: ++checksCompleted });
+        }
+        (Object.keys(soleRejections) as CombinationFilter[]).forEach(filter => {
+            if (soleRejections[filter] > 0) {
+                suggestions.push({ change: 'relaxFilter', target: filter, combinations: soleRejections[filter] });
+            }
+        });
+
+        const requiredCourseIds = constraints.requiredCourseIds ?? new Set<string>();
+        courseIds.forEach(courseId => {
+            const isRequired = requiredCourseIds.has(courseId);
+            const combinations = isRequired
+                ? countCombinations(selectedCourseIds, filters, {
+                    ...constraints,
+                    requiredCourseIds: withoutCourse(requiredCourseIds, courseId)
+                })
+                : countCombinations(withoutCourse(selectedCourseIds, courseId), filters, constraints);
+            if (combinations > 0) {
+                suggestions.push({ change: isRequired ? 'makeOptional' : 'dropCourse', target: courseId, combinations });
+            }
+        });
+
+        if (constraints.courseLoad && Object.values(constraints.courseLoad).some(limit => limit !== undefined)) {
+            const combinations = countCombinations(selectedCourseIds, filters, { ...constraints, courseLoad: {} });
+            if (combinations > 0) {
+                suggestions.push({ change: 'removeLoadLimits', target: null, combinations });
+            }
+        }
+
+        if (filters.isEnabled) {
+            const combinations = countCombinations(
+                selectedCourseIds,
+                { ...filters, isEnabled: false, busyBlocksEnabled: false },
+                constraints
+            );
+            if (combinations > 0) {
+                suggestions.push({ change: 'disableFilters', target: null, combinations });
+            }
+        }
+
+        suggestions.sort((a, b) => b.combinations - a.combinations);
+    }
+
+    return {
+        unavailableCourses,
+        conflictingCourses,
+        droppedCourses,
+        candidatesChecked,
+        filterRejections,
+        suggestions: suggestions.slice(0, MAX_SUGGESTIONS)
+    };
+};
+
+/**
+ * Describes a suggestion as a short instruction
+ * @param suggestion - The suggestion to describe
+ * @param getCourseLabel - Resolves a course id to a display label
+ * @returns Text such as "Drop CS 101 (12 schedules)"
+ */
+export const formatSuggestion = (
+    suggestion: ScheduleSuggestion,
+    getCourseLabel: (courseId: string) => string = courseId => courseId
+): string => {
+    const target = suggestion.target ?? '';
+    let action: string;
+    switch (suggestion.change) {
+        case 'relaxFilter':
+            action = `Set "${combinationFilterLabels[target as CombinationFilter]}" back to any`;
+            break;
+        case 'dropCourse':
+            action = `Drop ${getCourseLabel(target)}`;
+            break;
+        case 'makeOptional':
+            action = `Make ${getCourseLabel(target)} optional`;
+            break;
+        case 'removeLoadLimits':
+            action = 'Remove the course load limits';
+            break;
+        case 'disableFilters':
+            action = 'Turn off schedule filters';
+            break;
+    }
+    const count = suggestion.combinations >= SUGGESTION_COUNT_LIMIT
+        ? `${SUGGESTION_COUNT_LIMIT}+`
+        : `${suggestion.combinations}`;
+    return `${action} (${count} schedule${suggestion.combinations === 1 ? '' : 's'})`;
+};
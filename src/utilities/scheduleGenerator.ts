@@ -1,30 +1,117 @@
-import { CourseSection, hasTimeConflict } from './csvParser';
-import type { ScheduleFilters } from '../types/filters';
-import { timeRanges } from '../types/filters';
+import {
+    CourseSection,
+    DEFAULT_COMPONENT,
+    areSectionsLinked,
+    hasOpenSeats,
+    hasTimeConflict
+} from './csvParser';
+import type { CombinationFilter, ScheduleFilters, ScoringWeights, TimeWindow } from '../types/filters';
+import { TIME_WINDOW_BOUNDS, defaultScoringWeights } from '../types/filters';
+import { DAYS_OF_WEEK, WEEKDAYS, timeToMinutes } from './timeUtils';
+import {
+    buildConflictMatrix,
+    countBits,
+    createBitset,
+    getSectionIntervals,
+    hasBit,
+    intervalsOverlap,
+    setBit,
+    unionBitsets,
+    type Bitset,
+    type MeetingInterval
+} from './conflictMatrix';
+import { getActiveBusyBlocks, getBusyBlockIntervals } from './busyBlocks';
+import { hasTravelRules, violatesTravelBuffer, type TravelRules } from './travelBuffer';
+import {
+    computeScheduleMetrics,
+    scoreSchedule,
+    type ScheduleMetrics,
+    type ScoreBreakdown
+} from './scheduleScoring';
+import type { ScheduleDiagnostics } from './scheduleDiagnostics';
 
 export interface ScheduleCombination {
+    id: string;   // Derived from the CRNs alone, so the same schedule keeps its id across runs
     sections: CourseSection[];
     courseCount: number;
+    score: number;
+    scoreBreakdown: ScoreBreakdown;
+    metrics: ScheduleMetrics;
+}
+
+// Combinations sharing one weekly timetable, differing only in equivalent CRNs
+export interface ScheduleGroup {
+    patternKey: string;
+    combinations: ScheduleCombination[]; // Ranked best first
 }
 
 export interface ScheduleGeneratorResult {
     combinations: ScheduleCombination[];
+    groups: ScheduleGroup[];   // The same combinations grouped by time pattern, ranked by their best member
     stats: {
         totalCombinations: number;
+        totalGroups: number;
         coursesIncluded: string[];
+        branchesExplored: number;
+        isComplete: boolean; // false while results are still streaming in, or after a cancelled run
     };
+    diagnostics?: ScheduleDiagnostics; // Set when nothing was found or some selected courses never fit
+}
+
+export interface GenerationProgress {
+    branchesExplored: number;
+    combinationsFound: number;
+}
+
+// Bounds on how many courses, and how many credits, a combination may hold
+export interface CourseLoadRange {
+    minCourses?: number;
+    maxCourses?: number;
+    minCredits?: number;
+    maxCredits?: number;
 }
 
-// Helper function to convert time string to minutes
-const timeToMinutes = (time: string): number => {
-    const [hours, minutes] = time.split(':').map(Number);
-    return hours * 60 + minutes;
+// Per-course and per-section constraints set by the user
+export interface ScheduleGeneratorConstraints {
+    pinnedCrns?: Set<string>;         // Sections every combination must include
+    excludedCrns?: Set<string>;       // Sections no combination may include
+    requiredCourseIds?: Set<string>;  // Courses every combination must include
+    courseLoad?: CourseLoadRange;
+}
+
+export interface ScheduleGeneratorOptions extends ScheduleGeneratorConstraints {
+    onProgress?: (progress: GenerationProgress) => void;
+    // Called once with the first combinations found, before the search finishes
+    onFirstBatch?: (result: ScheduleGeneratorResult) => void;
+    // Only counts combinations, stopping at this many, without scoring or keeping any
+    countLimit?: number;
+    // With countLimit, called with the sections of each combination counted
+    onCount?: (sections: CourseSection[]) => void;
+}
+
+// Branches explored between progress reports
+const PROGRESS_INTERVAL = 5000;
+
+// Number of combinations collected before the first batch is reported
+export const FIRST_BATCH_SIZE = 50;
+
+// Whether a window limits anything, given that limits at the slider bounds mean "no limit"
+const isTimeWindowLimited = (window: TimeWindow): boolean => {
+    return window.earliestStart > TIME_WINDOW_BOUNDS.earliestStart ||
+        window.latestEnd < TIME_WINDOW_BOUNDS.latestEnd;
 };
 
-// Helper function to check if a time falls within a range
-const isInTimeRange = (time: string, range: { start: number; end: number }): boolean => {
-    const minutes = timeToMinutes(time);
-    return minutes >= range.start * 60 && minutes < range.end * 60;
+const hasTimeWindowLimits = (filters: ScheduleFilters): boolean => {
+    return isTimeWindowLimited(filters.timeWindow) ||
+        Object.values(filters.dayTimeWindows).some(isTimeWindowLimited);
+};
+
+// Helper function to check if a meeting falls within the window set for its day
+const isInTimeWindow = (interval: MeetingInterval, filters: ScheduleFilters): boolean => {
+    const window = filters.dayTimeWindows[DAYS_OF_WEEK[interval.day]] ?? filters.timeWindow;
+    const earliestStart = window.earliestStart > TIME_WINDOW_BOUNDS.earliestStart ? window.earliestStart : 0;
+    const latestEnd = window.latestEnd < TIME_WINDOW_BOUNDS.latestEnd ? window.latestEnd : 24 * 60;
+    return interval.start >= earliestStart && interval.end <= latestEnd;
 };
 
 // Calculate gap between meetings in hours
@@ -48,119 +135,210 @@ const getActiveDays = (combination: CourseSection[]): Set<string> => {
     return activeDays;
 };
 
-const meetsFilterCriteria = (combination: CourseSection[], filters: ScheduleFilters): boolean => {
-    // If filters are not enabled, accept all combinations
+// Section-level filters applied before any combinations are built
+const meetsSectionCriteria = (section: CourseSection, filters: ScheduleFilters): boolean => {
     if (!filters.isEnabled) return true;
 
-    // Days Off Check
-    if (filters.daysOff !== 'any') {
-        const activeDays = getActiveDays(combination);
-        const totalActiveDays = activeDays.size;
-        const weekdays = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'].length;
-        const daysOff = weekdays - totalActiveDays;
+    if (filters.campuses.length > 0 && section.campus && !filters.campuses.includes(section.campus)) {
+        return false;
+    }
+    if (section.instructor && filters.excludedInstructors.includes(section.instructor)) {
+        return false;
+    }
+    if (filters.openSeatsOnly && !hasOpenSeats(section)) {
+        return false;
+    }
+
+    return true;
+};
+
+const meetsDaysOffFilter = (combination: CourseSection[], filters: ScheduleFilters): boolean => {
+    if (filters.freeDays.length === 0 && filters.minDaysOff === 0) return true;
 
-        if (filters.daysOff === 'oneDay' && daysOff !== 1) return false;
-        if (filters.daysOff === 'twoDays' && daysOff !== 2) return false;
+    const activeDays = getActiveDays(combination);
+    if (filters.freeDays.some(day => activeDays.has(day))) return false;
+
+    // Only weekdays count, so a Saturday class does not use up a day off
+    const weekdaysOff = WEEKDAYS.filter(day => !activeDays.has(day)).length;
+    return weekdaysOff >= filters.minDaysOff;
+};
+
+const meetsDeliveryModeFilter = (combination: CourseSection[], filters: ScheduleFilters): boolean => {
+    if (filters.deliveryMode === 'any') return true;
+
+    const meetingTypes = combination.flatMap(section =>
+        section.meetings.map(meeting => meeting.type)
+    );
+
+    const onlineMeetingsCount = meetingTypes.filter(type => type === 'Online').length;
+    const inPersonMeetingsCount = meetingTypes.filter(type => type === 'In-person').length;
+    const hasOnline = onlineMeetingsCount > 0;
+    const hasInPerson = inPersonMeetingsCount > 0;
+
+    switch (filters.deliveryMode) {
+        case 'online':
+            return onlineMeetingsCount >= meetingTypes.length / 2;
+        case 'inPerson':
+            return inPersonMeetingsCount >= meetingTypes.length / 2;
+        case 'hybrid':
+            return hasOnline && hasInPerson;
     }
+};
 
-    // Delivery Mode Check
-    if (filters.deliveryMode !== 'any') {
-        const meetingTypes = combination.flatMap(section =>
-            section.meetings.map(meeting => meeting.type)
-        );
+const meetsTimeWindowFilter = (combination: CourseSection[], filters: ScheduleFilters): boolean => {
+    if (!hasTimeWindowLimits(filters)) return true;
 
-        const onlineMeetingsCount = meetingTypes.filter(type => type === 'Online').length;
-        const inPersonMeetingsCount = meetingTypes.filter(type => type === 'In-person').length;
-        const hasOnline = onlineMeetingsCount > 0;
-        const hasInPerson = inPersonMeetingsCount > 0;
+    const intervals = combination.flatMap(getSectionIntervals);
+    const meetingsInWindow = intervals.filter(interval => isInTimeWindow(interval, filters)).length;
 
-        switch (filters.deliveryMode) {
-            case 'online':
-                if (onlineMeetingsCount < meetingTypes.length / 2) return false;
-                break;
-            case 'inPerson':
-                if (inPersonMeetingsCount < meetingTypes.length / 2) return false;
+    return filters.timeWindowStrictness === 'all'
+        ? meetingsInWindow === intervals.length
+        : meetingsInWindow >= intervals.length / 2;
+};
+
+const meetsCompactnessFilter = (combination: CourseSection[], filters: ScheduleFilters): boolean => {
+    if (filters.scheduleCompactness === 'any') return true;
+
+    const meetingsByDay = new Map<string, Array<{start: string; end: string}>>();
+
+    combination.forEach(section => {
+        section.meetings.forEach(meeting => {
+            if (!meetingsByDay.has(meeting.day)) {
+                meetingsByDay.set(meeting.day, []);
+            }
+            meetingsByDay.get(meeting.day)?.push({
+                start: meeting.time.startTime,
+                end: meeting.time.endTime
+            });
+        });
+    });
+
+    let validDayCount = 0;
+    let totalDaysWithMultipleMeetings = 0;
+
+    for (const meetings of meetingsByDay.values()) {
+        if (meetings.length < 2) continue;
+
+        totalDaysWithMultipleMeetings++;
+        const sortedMeetings = sortMeetings(meetings);
+
+        let isValidDay = true;
+        for (let i = 1; i < sortedMeetings.length; i++) {
+            const gap = getGapBetweenMeetings(
+                sortedMeetings[i-1].end,
+                sortedMeetings[i].start
+            );
+
+            if (filters.scheduleCompactness === 'compact' && gap > 2) {
+                isValidDay = false;
                 break;
-            case 'hybrid':
-                if (!hasOnline || !hasInPerson) return false;
+            }
+            if (filters.scheduleCompactness === 'spread' && gap < 1) {
+                isValidDay = false;
                 break;
+            }
         }
+        if (isValidDay) validDayCount++;
     }
 
-    // Time of Day Check
-    if (filters.timeOfDay !== 'any') {
-        const range = timeRanges[filters.timeOfDay];
-        const meetingsInRange = combination.reduce((count, section) => {
-            return count + section.meetings.filter(meeting =>
-                isInTimeRange(meeting.time.startTime, range)
-            ).length;
-        }, 0);
-
-        const totalMeetings = combination.reduce((count, section) =>
-            count + section.meetings.length, 0
-        );
+    return totalDaysWithMultipleMeetings === 0 ||
+        validDayCount >= totalDaysWithMultipleMeetings / 2;
+};
 
-        if (meetingsInRange < totalMeetings / 2) return false;
-    }
+// Filters applied to whole combinations, in the order they are checked
+const combinationFilterChecks: Record<
+    CombinationFilter,
+    (combination: CourseSection[], filters: ScheduleFilters) => boolean
+> = {
+    daysOff: meetsDaysOffFilter,
+    deliveryMode: meetsDeliveryModeFilter,
+    timeWindow: meetsTimeWindowFilter,
+    scheduleCompactness: meetsCompactnessFilter
+};
 
-    // Schedule Compactness Check
-    if (filters.scheduleCompactness !== 'any') {
-        const meetingsByDay = new Map<string, Array<{start: string; end: string}>>();
-
-        combination.forEach(section => {
-            section.meetings.forEach(meeting => {
-                if (!meetingsByDay.has(meeting.day)) {
-                    meetingsByDay.set(meeting.day, []);
-                }
-                meetingsByDay.get(meeting.day)?.push({
-                    start: meeting.time.startTime,
-                    end: meeting.time.endTime
-                });
-            });
-        });
+const combinationFilters = Object.keys(combinationFilterChecks) as CombinationFilter[];
 
-        let validDayCount = 0;
-        let totalDaysWithMultipleMeetings = 0;
-
-        for (const meetings of meetingsByDay.values()) {
-            if (meetings.length < 2) continue;
-
-            totalDaysWithMultipleMeetings++;
-            const sortedMeetings = sortMeetings(meetings);
-
-            let isValidDay = true;
-            for (let i = 1; i < sortedMeetings.length; i++) {
-                const gap = getGapBetweenMeetings(
-                    sortedMeetings[i-1].end,
-                    sortedMeetings[i].start
-                );
-
-                if (filters.scheduleCompactness === 'compact' && gap > 2) {
-                    isValidDay = false;
-                    break;
-                }
-                if (filters.scheduleCompactness === 'spread' && gap < 1) {
-                    isValidDay = false;
-                    break;
-                }
+const meetsFilterCriteria = (combination: CourseSection[], filters: ScheduleFilters): boolean => {
+    // If filters are not enabled, accept all combinations
+    if (!filters.isEnabled) return true;
+
+    return combinationFilters.every(filter => combinationFilterChecks[filter](combination, filters));
+};
+
+/**
+ * Lists the combination filters a set of sections does not pass
+ * @param combination - Sections making up a schedule
+ * @param filters - Active schedule filters
+ * @returns Names of the failed filters, empty when filters are disabled
+ */
+export const getFailedFilters = (combination: CourseSection[], filters: ScheduleFilters): CombinationFilter[] => {
+    if (!filters.isEnabled) return [];
+
+    return combinationFilters.filter(filter => !combinationFilterChecks[filter](combination, filters));
+};
+
+// Day bit masks (bit 0 = Monday) of the days a combination may not use,
+// and the most weekdays it may use, to still pass the days off filter
+const getDaysOffLimits = (filters: ScheduleFilters): { freeDayMask: number; maxActiveWeekdays: number } => {
+    if (!filters.isEnabled) return { freeDayMask: 0, maxActiveWeekdays: WEEKDAYS.length };
+    return {
+        freeDayMask: filters.freeDays.reduce((mask, day) => mask | (1 << DAYS_OF_WEEK.indexOf(day)), 0),
+        maxActiveWeekdays: WEEKDAYS.length - filters.minDaysOff
+    };
+};
+
+const WEEKDAY_MASK = (1 << WEEKDAYS.length) - 1;
+
+/**
+ * Builds every valid way to take a course: one section from each of its
+ * components (lecture, lab, ...), respecting link groups and without the
+ * chosen sections overlapping each other or, with rejecting travel rules,
+ * leaving too little time to get from one to the next.
+ */
+const buildCourseOptions = (
+    courseSections: CourseSection[],
+    rejectTravelRules: TravelRules | null = null
+): CourseSection[][] => {
+    const sectionsByComponent = new Map<string, CourseSection[]>();
+    courseSections.forEach(section => {
+        const component = section.component ?? DEFAULT_COMPONENT;
+        if (!sectionsByComponent.has(component)) {
+            sectionsByComponent.set(component, []);
+        }
+        sectionsByComponent.get(component)?.push(section);
+    });
+
+    const components = Array.from(sectionsByComponent.values());
+    const options: CourseSection[][] = [];
+
+    const pickComponent = (current: CourseSection[], componentIndex: number) => {
+        if (componentIndex === components.length) {
+            if (!rejectTravelRules || !violatesTravelBuffer(current, rejectTravelRules)) {
+                options.push([...current]);
             }
-            if (isValidDay) validDayCount++;
+            return;
         }
 
-        if (totalDaysWithMultipleMeetings > 0 &&
-            validDayCount < totalDaysWithMultipleMeetings / 2) {
-            return false;
+        for (const section of components[componentIndex]) {
+            const isCompatible = current.every(chosen =>
+                areSectionsLinked(chosen, section) && !hasTimeConflict(chosen, section)
+            );
+            if (isCompatible) {
+                current.push(section);
+                pickComponent(current, componentIndex + 1);
+                current.pop();
+            }
         }
-    }
+    };
 
-    return true;
+    pickComponent([], 0);
+    return options;
 };
 
-const hasConflictWithCombination = (
-    section: CourseSection,
-    currentSections: CourseSection[]
-): boolean => {
-    return currentSections.some(existingSection => hasTimeConflict(section, existingSection));
+// Credits earned by taking a course through one option. Components usually repeat the
+// course's credits rather than splitting them, so the largest value is used.
+const getOptionCredits = (option: CourseSection[]): number => {
+    return option.reduce((credits, section) => Math.max(credits, section.credits ?? 0), 0);
 };
 
 const groupSectionsByCourse = (sections: CourseSection[]): Map<string, CourseSection[]> => {
@@ -177,84 +355,535 @@ const groupSectionsByCourse = (sections: CourseSection[]): Map<string, CourseSec
     return grouped;
 };
 
+const getSortedCrnKey = (sections: CourseSection[]): string => {
+    return sections.map(section => section.crn).sort().join(',');
+};
+
+// Key used to break ties between equally ranked combinations, cached since sorting compares often
+const crnKeyCache = new WeakMap<ScheduleCombination, string>();
+const getCrnKey = (combination: ScheduleCombination): string => {
+    let key = crnKeyCache.get(combination);
+    if (key === undefined) {
+        key = getSortedCrnKey(combination.sections);
+        crnKeyCache.set(combination, key);
+    }
+    return key;
+};
+
+// 64-bit hash of two separately mixed 32-bit lanes (cyrb53 style), as hex
+const hashString = (value: string): string => {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < value.length; i++) {
+        const code = value.charCodeAt(i);
+        h1 = Math.imul(h1 ^ code, 2654435761);
+        h2 = Math.imul(h2 ^ code, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (h1 >>> 0).toString(16).padStart(8, '0') + (h2 >>> 0).toString(16).padStart(8, '0');
+};
+
+const formatCombinationId = (crnKey: string): string => {
+    return hashString(crnKey).toUpperCase();
+};
+
+/**
+ * Stable id for a set of sections: a hash of the sorted CRNs, so it does not
+ * depend on ranking, filters or the order courses were selected in
+ * @param sections - Sections making up a schedule
+ * @returns Sixteen character id such as "3F9A0C12B47E5D01"
+ */
+export const getCombinationId = (sections: CourseSection[]): string => {
+    return formatCombinationId(getSortedCrnKey(sections));
+};
+
+
+// Sections are immutable once parsed, so each one's pattern is built once
+const sectionPatternCache = new WeakMap<CourseSection, string>();
+const getSectionPattern = (section: CourseSection): string => {
+    let pattern = sectionPatternCache.get(section);
+    if (pattern === undefined) {
+        const meetings = getSectionIntervals(section)
+            .map(interval => `${interval.day}:${interval.start}-${interval.end}${interval.isOnline ? 'o' : 'p'}`)
+            .join(',');
+        pattern = `${section.subject}${section.courseCode}/${section.component ?? DEFAULT_COMPONENT}@${meetings}`;
+        sectionPatternCache.set(section, pattern);
+    }
+    return pattern;
+};
+
+/**
+ * Describes when and how each course component of a combination meets, ignoring
+ * which CRN provides it, so equivalent combinations share the same key
+ * @param combination - The combination to describe
+ * @returns Key built from course, component, meeting times and delivery mode
+ */
+export const getTimePatternKey = (combination: ScheduleCombination): string => {
+    return combination.sections.map(getSectionPattern).sort().join('|');
+};
+
+/**
+ * Groups ranked combinations that share a time pattern, keeping the ranking
+ * @param combinations - Combinations sorted best first
+ * @returns Groups in order of their best combination
+ */
+export const groupCombinationsByPattern = (combinations: ScheduleCombination[]): ScheduleGroup[] => {
+    const groups = new Map<string, ScheduleGroup>();
+    combinations.forEach(combination => {
+        const patternKey = getTimePatternKey(combination);
+        let group = groups.get(patternKey);
+        if (!group) {
+            group = { patternKey, combinations: [] };
+            groups.set(patternKey, group);
+        }
+        group.combinations.push(combination);
+    });
+    return Array.from(groups.values());
+};
+
+// Scores a set of sections and wraps it as a combination, priming its CRN key
+const createCombination = (
+    sections: CourseSection[],
+    courseCount: number,
+    weights: ScoringWeights,
+    softBusyIntervals: MeetingInterval[],
+    travelRules: TravelRules | null
+): ScheduleCombination => {
+    const metrics = computeScheduleMetrics(sections, softBusyIntervals, travelRules);
+    const { score, breakdown } = scoreSchedule(metrics, weights);
+    const crnKey = getSortedCrnKey(sections);
+    const combination: ScheduleCombination = {
+        id: formatCombinationId(crnKey),
+        sections,
+        courseCount,
+        score,
+        scoreBreakdown: breakdown,
+        metrics
+    };
+    crnKeyCache.set(combination, crnKey);
+    return combination;
+};
+
+const compareCombinations = (a: ScheduleCombination, b: ScheduleCombination): number => {
+    // First by number of courses (descending)
+    if (b.courseCount !== a.courseCount) {
+        return b.courseCount - a.courseCount;
+    }
+    // Then by preference score (descending)
+    if (b.score !== a.score) {
+        return b.score - a.score;
+    }
+    // Then by CRNs so the order is stable between runs
+    return getCrnKey(a).localeCompare(getCrnKey(b));
+};
+
+/**
+ * Generates every non-conflicting combination of the selected courses that
+ * passes the active filters, ranked from best to worst.
+ * @param allSections - All parsed course sections
+ * @param selectedCourseIds - Courses to schedule, as subject + course code
+ * @param filters - Active schedule filters
+ * @param options - Pinned and excluded sections, required courses and load limits,
+ *                  plus progress and streaming callbacks
+ * @returns The ranked combinations and search statistics
+ */
 export const generateNonConflictingSchedules = (
     allSections: CourseSection[],
     selectedCourseIds: Set<string>,
-    filters: ScheduleFilters
+    filters: ScheduleFilters,
+    options: ScheduleGeneratorOptions = {}
 ): ScheduleGeneratorResult => {
-    // Filter sections to only include selected courses
+    const pinnedCrns = options.pinnedCrns ?? new Set<string>();
+    const excludedCrns = options.excludedCrns ?? new Set<string>();
+    const requiredCourseIds = options.requiredCourseIds ?? new Set<string>();
+    const {
+        maxCourses = Infinity,
+        minCredits = 0,
+        maxCredits = Infinity
+    } = options.courseLoad ?? {};
+    // A combination always holds at least one course
+    const minCourses = Math.max(1, options.courseLoad?.minCourses ?? 1);
+    // Taken from the selection before any section is filtered out, so a required
+    // course left with no usable sections can't quietly disappear
+    const requiredSelectedIds = Array.from(selectedCourseIds).filter(courseId => requiredCourseIds.has(courseId));
+
+    // Filter sections to only include selected courses; pinned sections bypass the section filters
     const selectedSections = allSections.filter(section =>
-        selectedCourseIds.has(`${section.subject}${section.courseCode}`)
+        selectedCourseIds.has(`${section.subject}${section.courseCode}`) &&
+        !excludedCrns.has(section.crn) &&
+        (pinnedCrns.has(section.crn) || meetsSectionCriteria(section, filters))
     );
 
-    // Group sections by course
+    // Group sections by course and expand each into its valid component bundles,
+    // keeping only the bundles that contain every pinned section of the course
     const sectionsByCourse = groupSectionsByCourse(selectedSections);
     const courseIds = Array.from(sectionsByCourse.keys());
+    // Required courses, and courses holding a pinned section, can never be left out
+    const isRequiredCourse = courseIds.map(courseId =>
+        requiredCourseIds.has(courseId) ||
+        (sectionsByCourse.get(courseId) || []).some(section => pinnedCrns.has(section.crn))
+    );
+    // Rejected travel buffers rule a schedule out; penalised ones only lower the score
+    const travelRules = hasTravelRules(filters) ? filters : null;
+    const rejectTravelRules = travelRules && filters.travelBufferMode === 'reject' ? travelRules : null;
+    const optionsByCourse = courseIds.map(courseId => {
+        const courseSections = sectionsByCourse.get(courseId) || [];
+        const pinnedSections = courseSections.filter(section => pinnedCrns.has(section.crn));
+        return buildCourseOptions(courseSections, rejectTravelRules).filter(option =>
+            pinnedSections.every(pinned => option.includes(pinned))
+        );
+    });
+
+    // Number every option across all courses and precompute which pairs overlap
+    const allOptions = optionsByCourse.flat();
+    const matrix = buildConflictMatrix(allOptions);
+    const optionIndicesByCourse: number[][] = [];
+    let nextOptionIndex = 0;
+    optionsByCourse.forEach(courseOptions => {
+        optionIndicesByCourse.push(courseOptions.map(() => nextOptionIndex++));
+    });
+    const optionCredits = allOptions.map(getOptionCredits);
+
+    // Most credits still available from each course onwards, for pruning against the minimum
+    const maxCreditsFrom = new Array<number>(courseIds.length + 1).fill(0);
+    for (let i = courseIds.length - 1; i >= 0; i--) {
+        const courseMax = optionIndicesByCourse[i].reduce(
+            (max, optionIndex) => Math.max(max, optionCredits[optionIndex]), 0
+        );
+        maxCreditsFrom[i] = maxCreditsFrom[i + 1] + courseMax;
+    }
+
+    // With an upper limit in place, optional courses may be left out even when they fit
+    const canLeaveOutFittingCourses = maxCourses < courseIds.length || maxCredits !== Infinity;
+
+    const hasAvailableOption = (courseIndex: number, blocked: Bitset): boolean => {
+        return optionIndicesByCourse[courseIndex].some(optionIndex => !hasBit(blocked, optionIndex));
+    };
+
+    // Forward check: every later course that must be included still needs a section that fits
+    const canIncludeRemainingRequired = (courseIndex: number, blocked: Bitset): boolean => {
+        for (let i = courseIndex; i < courseIds.length; i++) {
+            if (isRequiredCourse[i] && !hasAvailableOption(i, blocked)) return false;
+        }
+        return true;
+    };
+
+    // Options overlapping a hard busy block are blocked from the start, exactly like a conflict
+    const busyBlocks = getActiveBusyBlocks(filters);
+    const hardBusyIntervals = getBusyBlockIntervals(busyBlocks.filter(block => block.isHard));
+    const softBusyIntervals = getBusyBlockIntervals(busyBlocks.filter(block => !block.isHard));
+    const initialBlocked = createBitset(matrix.size);
+    matrix.intervals.forEach((optionIntervals, optionIndex) => {
+        if (intervalsOverlap(optionIntervals, hardBusyIntervals)) {
+            setBit(initialBlocked, optionIndex);
+        }
+    });
 
     const combinations: ScheduleCombination[] = [];
+    const weights = filters.isEnabled ? filters.scoringWeights : defaultScoringWeights;
+    const { freeDayMask, maxActiveWeekdays } = getDaysOffLimits(filters);
+    // When every meeting must fit the time windows, options with a meeting outside them never pass
+    const requiresAllInWindow = filters.isEnabled &&
+        filters.timeWindowStrictness === 'all' &&
+        hasTimeWindowLimits(filters);
+    const fitsTimeWindows = matrix.intervals.map(optionIntervals =>
+        !requiresAllInWindow || optionIntervals.every(interval => isInTimeWindow(interval, filters))
+    );
+    let branchesExplored = 0;
+    let hasSentFirstBatch = false;
+    const isCountOnly = options.countLimit !== undefined;
+    const countLimit = options.countLimit ?? Infinity;
+    let countedCombinations = 0;
+
+    const createResult = (ranked: ScheduleCombination[], isComplete: boolean): ScheduleGeneratorResult => {
+        const groups = groupCombinationsByPattern(ranked);
+        return {
+            combinations: ranked,
+            groups,
+            stats: {
+                totalCombinations: ranked.length,
+                totalGroups: groups.length,
+                coursesIncluded: courseIds,
+                branchesExplored,
+                isComplete
+            }
+        };
+    };
+
+    // Each CRN set is reached once, so a repeated id can only be a hash collision;
+    // later ones get a numeric suffix to keep ids unique within the run
+    const usedIds = new Set<string>();
+    const claimUniqueId = (id: string): string => {
+        let uniqueId = id;
+        for (let suffix = 2; usedIds.has(uniqueId); suffix++) {
+            uniqueId = `${id}-${suffix}`;
+        }
+        usedIds.add(uniqueId);
+        return uniqueId;
+    };
+
+    const chosenOptions: number[] = [];
 
     const buildCombinations = (
-        currentCombination: CourseSection[],
-        courseIndex: number
-    ) => {
+        courseIndex: number,
+        courseCount: number,
+        credits: number,
+        blocked: Bitset,   // Options that overlap something already chosen
+        dayMask: number    // Days already holding a meeting
+    ): boolean => {        // Whether any combination was found from here
+        if (countedCombinations >= countLimit) return true;
+        branchesExplored++;
+        if (options.onProgress && branchesExplored % PROGRESS_INTERVAL === 0) {
+            options.onProgress({ branchesExplored, combinationsFound: combinations.length });
+        }
+        if (options.onFirstBatch && !hasSentFirstBatch && combinations.length >= FIRST_BATCH_SIZE) {
+            hasSentFirstBatch = true;
+            options.onFirstBatch(createResult([...combinations].sort(compareCombinations), false));
+        }
+
+        // Even taking every remaining course could not reach the minimum load
+        if (courseCount + (courseIds.length - courseIndex) < minCourses ||
+            credits + maxCreditsFrom[courseIndex] < minCredits) {
+            return false;
+        }
+
         // Base case: we've considered all courses
         if (courseIndex === courseIds.length) {
-            if (meetsFilterCriteria(currentCombination, filters)) {
-                combinations.push({
-                    sections: [...currentCombination],
-                    courseCount: currentCombination.length
-                });
+            const currentCombination = chosenOptions.flatMap(index => allOptions[index]);
+            // Each gap depends on the meeting right before it, so travel is checked on the whole week
+            if (rejectTravelRules && violatesTravelBuffer(currentCombination, rejectTravelRules)) return false;
+            if (!meetsFilterCriteria(currentCombination, filters)) return false;
+            if (isCountOnly) {
+                countedCombinations++;
+                options.onCount?.(currentCombination);
+                return true;
             }
-            return;
+            const combination = createCombination(
+                currentCombination, courseCount, weights, softBusyIntervals, travelRules
+            );
+            combination.id = claimUniqueId(combination.id);
+            combinations.push(combination);
+            return true;
         }
 
-        const courseId = courseIds[courseIndex];
-        const courseSections = sectionsByCourse.get(courseId) || [];
-
-        // Try each section of the current course
-        let addedSection = false;
-        for (const section of courseSections) {
-            if (!hasConflictWithCombination(section, currentCombination)) {
-                currentCombination.push(section);
-                buildCombinations(currentCombination, courseIndex + 1);
-                currentCombination.pop();
-                addedSection = true;
+        // Try each set of sections for the current course that fits with those already chosen
+        let hasFound = false;
+        for (const optionIndex of optionIndicesByCourse[courseIndex]) {
+            if (hasBit(blocked, optionIndex)) continue;
+
+            // An option that leaves a later required course with no room counts as a conflict
+            const nextBlocked = unionBitsets(blocked, matrix.conflicts[optionIndex]);
+            if (!canIncludeRemainingRequired(courseIndex + 1, nextBlocked)) continue;
+
+            // Course count and credits only grow, so a branch over either limit can never pass
+            const nextCredits = credits + optionCredits[optionIndex];
+            if (courseCount + 1 > maxCourses || nextCredits > maxCredits) continue;
+
+            // Days only accumulate, so a branch that already uses a free day, or has
+            // too few weekdays off, can never pass
+            const nextDayMask = dayMask | matrix.dayMasks[optionIndex];
+            if ((nextDayMask & freeDayMask) !== 0 ||
+                countBits(nextDayMask & WEEKDAY_MASK) > maxActiveWeekdays) continue;
+            if (!fitsTimeWindows[optionIndex]) continue;
+
+            chosenOptions.push(optionIndex);
+            if (buildCombinations(courseIndex + 1, courseCount + 1, nextCredits, nextBlocked, nextDayMask)) {
+                hasFound = true;
             }
+            chosenOptions.pop();
         }
 
-        // If we couldn't add any section for this course, try skipping it
-        if (!addedSection) {
-            buildCombinations(currentCombination, courseIndex + 1);
+        // If no combination could include this course (or a load limit may call for
+        // leaving it out), try skipping it, unless the course is required
+        if ((!hasFound || canLeaveOutFittingCourses) && !isRequiredCourse[courseIndex] &&
+            buildCombinations(courseIndex + 1, courseCount, credits, blocked, dayMask)) {
+            hasFound = true;
         }
+        return hasFound;
     };
 
-    // Start the recursive process
-    buildCombinations([], 0);
+    // Start the recursive process, unless a required course has nothing left to offer
+    const hasEveryRequiredCourse = requiredSelectedIds.every(courseId => sectionsByCourse.has(courseId));
+    if (hasEveryRequiredCourse && canIncludeRemainingRequired(0, initialBlocked)) {
+        buildCombinations(0, 0, 0, initialBlocked, 0);
+    }
 
-    // Sort combinations
-    combinations.sort((a, b) => {
-        // First by number of courses (descending)
-        if (b.courseCount !== a.courseCount) {
-            return b.courseCount - a.courseCount;
-        }
-        // Then randomly for variety
-        return Math.random() - 0.5;
-    });
+    if (isCountOnly) {
+        return {
+            combinations: [],
+            groups: [],
+            stats: {
+                totalCombinations: countedCombinations,
+                totalGroups: 0,
+                coursesIncluded: courseIds,
+                branchesExplored,
+                isComplete: countedCombinations < countLimit
+            }
+        };
+    }
+
+    // Sort combinations from best to worst
+    combinations.sort(compareCombinations);
+    options.onProgress?.({ branchesExplored, combinationsFound: combinations.length });
 
     // Ensure we return an empty array if no combinations are found
-    return {
-        combinations: combinations,
-        stats: {
-            totalCombinations: combinations.length,
-            coursesIncluded: courseIds
-        }
-    };
+    return createResult(combinations, true);
 };
 
-export const formatScheduleCombination = (combination: ScheduleCombination): string => {
-    return combination.sections
-        .map(section =>
-            `${section.subject} ${section.courseCode} (CRN: ${section.crn})`
+/**
+ * Counts the combinations a run would produce without scoring or ranking them,
+ * stopping early once the limit is reached
+ * @param allSections - All parsed course sections
+ * @param selectedCourseIds - Courses to schedule, as subject + course code
+ * @param filters - Active schedule filters
+ * @param constraints - Pinned and excluded sections, required courses and load limits
+ * @param limit - Most combinations to count; 1 just checks that any exist
+ * @param onCount - Called with the sections of each combination counted
+ * @returns The number of combinations found, at most the limit
+ */
+export const countNonConflictingSchedules = (
+    allSections: CourseSection[],
+    selectedCourseIds: Set<string>,
+    filters: ScheduleFilters,
+    constraints: ScheduleGeneratorConstraints,
+    limit: number,
+    onCount?: (sections: CourseSection[]) => void
+): number => {
+    return generateNonConflictingSchedules(allSections, selectedCourseIds, filters, {
+        ...constraints,
+        countLimit: limit,
+        onCount
+    }).stats.totalCombinations;
+};
+
+/**
+ * Finds every way to take one course that fits around the rest of a schedule:
+ * each option must pass the section filters, avoid the other sections and hard
+ * busy times, respect rejected travel buffers and leave the whole week passing
+ * the active filters.
+ * @param allSections - All parsed course sections
+ * @param currentSections - Sections of the schedule to start from
+ * @param courseId - Course to swap, as subject + course code
+ * @param filters - Active schedule filters
+ * @param excludedCrns - Sections that may not be swapped in
+ * @param pinnedCrns - Sections that may not be swapped out; like in generation they skip the section filters
+ * @returns Ranked combinations, one per fitting option, including the current one
+ */
+export const findSectionAlternatives = (
+    allSections: CourseSection[],
+    currentSections: CourseSection[],
+    courseId: string,
+    filters: ScheduleFilters,
+    excludedCrns: Set<string> = new Set(),
+    pinnedCrns: Set<string> = new Set()
+): ScheduleCombination[] => {
+    const getCourseId = (section: CourseSection) => `${section.subject}${section.courseCode}`;
+    const fixedSections = currentSections.filter(section => getCourseId(section) !== courseId);
+    const courseSections = allSections.filter(section =>
+        getCourseId(section) === courseId &&
+        !excludedCrns.has(section.crn) &&
+        (pinnedCrns.has(section.crn) || meetsSectionCriteria(section, filters))
+    );
+    const pinnedSections = courseSections.filter(section => pinnedCrns.has(section.crn));
+    const courseCount = new Set(fixedSections.map(getCourseId)).size + 1;
+
+    const busyBlocks = getActiveBusyBlocks(filters);
+    const hardBusyIntervals = getBusyBlockIntervals(busyBlocks.filter(block => block.isHard));
+    const softBusyIntervals = getBusyBlockIntervals(busyBlocks.filter(block => !block.isHard));
+    const travelRules = hasTravelRules(filters) ? filters : null;
+    const rejectTravelRules = travelRules && filters.travelBufferMode === 'reject' ? travelRules : null;
+    const weights = filters.isEnabled ? filters.scoringWeights : defaultScoringWeights;
+
+    return buildCourseOptions(courseSections, rejectTravelRules)
+        .filter(option =>
+            pinnedSections.every(pinned => option.includes(pinned)) &&
+            option.every(section => fixedSections.every(fixed => !hasTimeConflict(section, fixed))) &&
+            !intervalsOverlap(option.flatMap(getSectionIntervals), hardBusyIntervals)
+        )
+        .map(option => [...fixedSections, ...option])
+        .filter(sections =>
+            !(rejectTravelRules && violatesTravelBuffer(sections, rejectTravelRules)) &&
+            meetsFilterCriteria(sections, filters)
         )
+        .map(sections => createCombination(sections, courseCount, weights, softBusyIntervals, travelRules))
+        .sort(compareCombinations);
+};
+
+// Text formats a combination can be copied or exported in
+export type ScheduleExportFormat = 'summary' | 'crnLines' | 'crnCsv' | 'table';
+
+export const scheduleExportFormatLabels: Record<ScheduleExportFormat, string> = {
+    summary: 'Course list',
+    crnLines: 'CRNs, one per line',
+    crnCsv: 'CRNs, comma-separated',
+    table: 'Table (tab-separated)'
+};
+
+const getSectionCourseLabel = (section: CourseSection): string => {
+    return `${section.subject} ${section.courseCode}${section.component ? ` ${section.component}` : ''}`;
+};
+
+// CRNs in the order sections appear, each once
+const getCombinationCrns = (combination: ScheduleCombination): string[] => {
+    return Array.from(new Set(combination.sections.map(section => section.crn)));
+};
+
+// Lists values per meeting, collapsing them to one when every meeting agrees
+const joinMeetingValues = (values: string[]): string => {
+    return new Set(values).size === 1 ? values[0] : values.join(', ');
+};
+
+// Tabs and line breaks inside a cell would split it when pasted
+const toTableCell = (value: string): string => value.replace(/[\t\r\n]+/g, ' ');
+
+const formatCourseSummary = (combination: ScheduleCombination): string => {
+    return combination.sections
+        .map(section => `${getSectionCourseLabel(section)} (CRN: ${section.crn})`)
         .join('\n');
+};
+
+const formatCrnLines = (combination: ScheduleCombination): string => {
+    return getCombinationCrns(combination).join('\n');
+};
+
+const formatCrnCsv = (combination: ScheduleCombination): string => {
+    return getCombinationCrns(combination).join(',');
+};
+
+/**
+ * One row per section with course, CRN, days, times and delivery mode,
+ * separated by tabs so it pastes into spreadsheets as columns
+ */
+const formatScheduleTable = (combination: ScheduleCombination): string => {
+    const rows = combination.sections.map(section => [
+        `${getSectionCourseLabel(section)} - ${section.courseName}`,
+        section.crn,
+        section.meetings.map(meeting => meeting.day.slice(0, 3)).join(', '),
+        joinMeetingValues(section.meetings.map(meeting => `${meeting.time.startTime}-${meeting.time.endTime}`)),
+        joinMeetingValues(section.meetings.map(meeting => meeting.type))
+    ]);
+    return [['Course', 'CRN', 'Days', 'Times', 'Mode'], ...rows]
+        .map(row => row.map(toTableCell).join('\t'))
+        .join('\n');
+};
+
+const scheduleFormatters: Record<ScheduleExportFormat, (combination: ScheduleCombination) => string> = {
+    summary: formatCourseSummary,
+    crnLines: formatCrnLines,
+    crnCsv: formatCrnCsv,
+    table: formatScheduleTable
+};
+
+/**
+ * Formats a combination as text for copying into a registration form or spreadsheet
+ * @param combination - The combination to format
+ * @param format - Output format; defaults to one "SUBJ CODE (CRN: n)" line per section
+ * @returns The formatted text
+ */
+export const formatScheduleCombination = (
+    combination: ScheduleCombination,
+    format: ScheduleExportFormat = 'summary'
+): string => {
+    return scheduleFormatters[format](combination);
 };
\ No newline at end of file
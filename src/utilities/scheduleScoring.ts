@@ -0,0 +1,148 @@
+import type { CourseSection } from './csvParser';
+import type { ScoreCriterion, ScoringWeights } from '../types/filters';
+import { getOverlapMinutes, getSectionIntervals, type MeetingInterval } from './conflictMatrix';
+import { DAYS_OF_WEEK, WEEKDAYS } from './timeUtils';
+import { findTravelViolations, type TravelRules } from './travelBuffer';
+
+// Summary figures describing a week of classes
+export interface ScheduleMetrics {
+    activeDays: number;        // Days with any meeting
+    daysOff: number;           // Weekdays without any meeting
+    longestDaysOff: number;    // Longest run of free days, wrapping over the weekend
+    campusDays: number;        // Days with at least one in-person meeting
+    totalGapMinutes: number;   // Idle time between meetings on the same day
+    earliestStart: number;     // Minutes since midnight, 0 when there are no meetings
+    latestEnd: number;         // Minutes since midnight
+    onlineRatio: number;       // Share of meetings held online (0-1)
+    softBusyMinutes: number;   // Class time overlapping the user's soft busy blocks
+    travelViolations: number;  // Meetings starting too soon after the previous one to get there
+}
+
+export type ScoreBreakdown = Record<ScoreCriterion, number>;
+
+// Bounds used to normalise each metric to a 0-1 preference value
+const EARLIEST_REASONABLE_START = 8 * 60;
+const LATEST_REASONABLE_START = 12 * 60;
+const EARLIEST_REASONABLE_END = 15 * 60;
+const LATEST_REASONABLE_END = 21 * 60;
+const MAX_WEEKLY_GAP_MINUTES = 10 * 60;
+const MAX_WEEKLY_BUSY_OVERLAP_MINUTES = 5 * 60;
+const MAX_WEEKLY_TRAVEL_VIOLATIONS = 3;
+const FREE_WEEKEND_DAYS = DAYS_OF_WEEK.length - WEEKDAYS.length;
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+// Longest run of consecutive days without meetings; Sunday runs on into Monday
+const getLongestDaysOff = (activeDays: Set<number>): number => {
+    const dayCount = DAYS_OF_WEEK.length;
+    if (activeDays.size === 0) return dayCount;
+
+    let longest = 0;
+    let current = 0;
+    for (let i = 0; i < dayCount * 2; i++) {
+        current = activeDays.has(i % dayCount) ? 0 : current + 1;
+        longest = Math.max(longest, current);
+    }
+    return Math.min(longest, dayCount);
+};
+
+/**
+ * Computes summary metrics for a set of sections
+ * @param sections - Sections making up a schedule
+ * @param softBusyIntervals - Soft busy blocks the schedule should avoid
+ * @param travelRules - Travel buffers to count violations against, if any
+ * @returns Metrics such as days off, gap time and online ratio
+ */
+export const computeScheduleMetrics = (
+    sections: CourseSection[],
+    softBusyIntervals: MeetingInterval[] = [],
+    travelRules: TravelRules | null = null
+): ScheduleMetrics => {
+    const intervals = sections.flatMap(getSectionIntervals);
+    const intervalsByDay = new Map<number, MeetingInterval[]>();
+    const campusDays = new Set<number>();
+
+    intervals.forEach(interval => {
+        if (!intervalsByDay.has(interval.day)) {
+            intervalsByDay.set(interval.day, []);
+        }
+        intervalsByDay.get(interval.day)?.push(interval);
+        if (!interval.isOnline) {
+            campusDays.add(interval.day);
+        }
+    });
+
+    let totalGapMinutes = 0;
+    let earliestStart = Infinity;
+    let latestEnd = 0;
+
+    for (const dayIntervals of intervalsByDay.values()) {
+        dayIntervals.sort((a, b) => a.start - b.start);
+        earliestStart = Math.min(earliestStart, dayIntervals[0].start);
+
+        let dayEnd = dayIntervals[0].end;
+        for (let i = 1; i < dayIntervals.length; i++) {
+            totalGapMinutes += Math.max(0, dayIntervals[i].start - dayEnd);
+            dayEnd = Math.max(dayEnd, dayIntervals[i].end);
+        }
+        latestEnd = Math.max(latestEnd, dayEnd);
+    }
+
+    const onlineCount = intervals.filter(interval => interval.isOnline).length;
+
+    return {
+        activeDays: intervalsByDay.size,
+        daysOff: WEEKDAYS.filter((_, day) => !intervalsByDay.has(day)).length,
+        longestDaysOff: getLongestDaysOff(new Set(intervalsByDay.keys())),
+        campusDays: campusDays.size,
+        totalGapMinutes,
+        earliestStart: earliestStart === Infinity ? 0 : earliestStart,
+        latestEnd,
+        onlineRatio: intervals.length > 0 ? onlineCount / intervals.length : 0,
+        softBusyMinutes: getOverlapMinutes(intervals, softBusyIntervals),
+        travelViolations: travelRules ? findTravelViolations(sections, travelRules).length : 0
+    };
+};
+
+/**
+ * Scores a schedule against the user's weighted preferences.
+ * Each criterion is normalised to 0-1 and multiplied by its weight;
+ * overlap with soft busy blocks and rushed travel are penalties and count from 0 down to -1.
+ * @param metrics - Metrics of the schedule
+ * @param weights - Weight of each criterion
+ * @returns Total score and the contribution of each criterion
+ */
+export const scoreSchedule = (
+    metrics: ScheduleMetrics,
+    weights: ScoringWeights
+): { score: number; breakdown: ScoreBreakdown } => {
+    const preferences: ScoreBreakdown = {
+        daysOff: metrics.daysOff / WEEKDAYS.length,
+        // A free weekend alone earns nothing; each extra day next to it counts
+        consecutiveDaysOff: clamp((metrics.longestDaysOff - FREE_WEEKEND_DAYS) / WEEKDAYS.length),
+        gapTime: 1 - clamp(metrics.totalGapMinutes / MAX_WEEKLY_GAP_MINUTES),
+        earliestStart: clamp(
+            (metrics.earliestStart - EARLIEST_REASONABLE_START) /
+            (LATEST_REASONABLE_START - EARLIEST_REASONABLE_START)
+        ),
+        latestEnd: clamp(
+            (LATEST_REASONABLE_END - metrics.latestEnd) /
+            (LATEST_REASONABLE_END - EARLIEST_REASONABLE_END)
+        ),
+        onlineRatio: metrics.onlineRatio,
+        campusDays: 1 - clamp(metrics.campusDays / WEEKDAYS.length),
+        softBusyBlocks: -clamp(metrics.softBusyMinutes / MAX_WEEKLY_BUSY_OVERLAP_MINUTES),
+        travelBuffer: -clamp(metrics.travelViolations / MAX_WEEKLY_TRAVEL_VIOLATIONS)
+    };
+
+    const breakdown = Object.fromEntries(
+        (Object.keys(preferences) as ScoreCriterion[]).map(criterion => [
+            criterion,
+            preferences[criterion] * weights[criterion]
+        ])
+    ) as ScoreBreakdown;
+
+    const score = Object.values(breakdown).reduce((total, value) => total + value, 0);
+
+    return { score, breakdown };
+};
@@ -0,0 +1,26 @@
+export const DAYS_OF_WEEK = [
+    'Monday',
+    'Tuesday',
+    'Wednesday',
+    'Thursday',
+    'Friday',
+    'Saturday',
+    'Sunday'
+] as const;
+
+export type DayOfWeek = typeof DAYS_OF_WEEK[number];
+
+export const WEEKDAYS = DAYS_OF_WEEK.slice(0, 5);
+
+// Converts "HH:MM" to minutes since midnight
+export const timeToMinutes = (time: string): number => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+// Converts minutes since midnight back to "HH:MM"
+export const minutesToTime = (totalMinutes: number): string => {
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
@@ -0,0 +1,218 @@
+import type { CourseSection } from './csvParser';
+import type { ScheduleCombination } from './scheduleGenerator';
+import { getSectionIntervals } from './conflictMatrix';
+import { DAYS_OF_WEEK, WEEKDAYS, minutesToTime } from './timeUtils';
+
+export interface TimetableImageColors {
+    courseColors: string[];   // Assigned to courses in the order they first appear
+    background: string;
+    headerBackground: string;
+    grid: string;
+    text: string;
+    eventText: string;
+}
+
+// Layout in CSS pixels; the canvas is scaled up for sharper output
+const WIDTH = 1400;
+const PADDING = 24;
+const TITLE_HEIGHT = 36;
+const HEADER_HEIGHT = 32;
+const GUTTER_WIDTH = 56;
+const HOUR_HEIGHT = 52;
+const LEGEND_ROW_HEIGHT = 22;
+const EVENT_LINE_HEIGHT = 15;
+const FONT = 'system-ui, -apple-system, "Segoe UI", sans-serif';
+
+const getCourseKey = (section: CourseSection) => `${section.subject}${section.courseCode}`;
+
+// Same assignment as the calendar: each course gets the next colour as it first appears
+const getCourseColorIndices = (sections: CourseSection[]): Map<string, number> => {
+    const indices = new Map<string, number>();
+    sections.forEach(section => {
+        const key = getCourseKey(section);
+        if (!indices.has(key)) indices.set(key, indices.size);
+    });
+    return indices;
+};
+
+// Whole hours covering every meeting, never narrower than 8:00-18:00
+const getHourRange = (sections: CourseSection[]): { firstHour: number; lastHour: number } => {
+    const intervals = sections.flatMap(getSectionIntervals);
+    const earliest = Math.min(8 * 60, ...intervals.map(interval => interval.start));
+    const latest = Math.max(18 * 60, ...intervals.map(interval => interval.end));
+    return { firstHour: Math.floor(earliest / 60), lastHour: Math.ceil(latest / 60) };
+};
+
+// Weekdays always show; weekend days only when something meets on them
+const getShownDays = (sections: CourseSection[]): number[] => {
+    const usedDays = new Set(sections.flatMap(getSectionIntervals).map(interval => interval.day));
+    return DAYS_OF_WEEK
+        .map((_, day) => day)
+        .filter(day => day < WEEKDAYS.length || usedDays.has(day));
+};
+
+const getLegendLines = (combination: ScheduleCombination): Array<{ key: string; text: string }> => {
+    const lines = new Map<string, { key: string; text: string; crns: string[] }>();
+    combination.sections.forEach(section => {
+        const key = getCourseKey(section);
+        if (!lines.has(key)) {
+            lines.set(key, { key, text: `${section.subject} ${section.courseCode} - ${section.courseName}`, crns: [] });
+        }
+        lines.get(key)?.crns.push(section.component ? `${section.crn} (${section.component})` : section.crn);
+    });
+    return Array.from(lines.values()).map(({ key, text, crns }) => ({ key, text: `${text}  |  CRN ${crns.join(', ')}` }));
+};
+
+// Draws as many lines as fit in the box, cutting off the rest
+const drawClippedLines = (
+    context: CanvasRenderingContext2D,
+    lines: string[],
+    x: number,
+    y: number,
+    width: number,
+    height: number
+) => {
+    context.save();
+    context.beginPath();
+    context.rect(x, y, width, height);
+    context.clip();
+    lines.forEach((line, index) => {
+        const lineY = y + 4 + index * EVENT_LINE_HEIGHT;
+        if (lineY + EVENT_LINE_HEIGHT > y + height + 2) return;
+        context.fillText(line, x + 6, lineY, width - 12);
+    });
+    context.restore();
+};
+
+/**
+ * Draws a combination as a weekly timetable with a legend of courses, CRNs
+ * and delivery modes. Online meetings are drawn faded with a dashed outline.
+ * @param combination - Schedule to draw
+ * @param colors - Colours of the grid, text and courses
+ * @param scale - Device pixels per layout pixel
+ * @returns A canvas holding the image
+ */
+export const renderTimetableImage = (
+    combination: ScheduleCombination,
+    colors: TimetableImageColors,
+    scale = 2
+): HTMLCanvasElement => {
+    const { sections } = combination;
+    const { firstHour, lastHour } = getHourRange(sections);
+    const shownDays = getShownDays(sections);
+    const legendLines = getLegendLines(combination);
+    const colorIndices = getCourseColorIndices(sections);
+
+    const gridTop = PADDING + TITLE_HEIGHT + HEADER_HEIGHT;
+    const gridHeight = (lastHour - firstHour) * HOUR_HEIGHT;
+    const gridLeft = PADDING + GUTTER_WIDTH;
+    const dayWidth = (WIDTH - PADDING - gridLeft) / shownDays.length;
+    const legendTop = gridTop + gridHeight + PADDING;
+    const height = legendTop + (legendLines.length + 1) * LEGEND_ROW_HEIGHT + PADDING;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = WIDTH * scale;
+    canvas.height = height * scale;
+    const context = canvas.getContext('2d');
+    if (!context) return canvas;
+    context.scale(scale, scale);
+    context.textBaseline = 'top';
+
+    context.fillStyle = colors.background;
+    context.fillRect(0, 0, WIDTH, height);
+
+    // Title
+    context.fillStyle = colors.text;
+    context.font = `600 18px ${FONT}`;
+    context.fillText(`Weekly schedule ${combination.id}`, PADDING, PADDING);
+
+    // Day headers
+    context.fillStyle = colors.headerBackground;
+    context.fillRect(gridLeft, gridTop - HEADER_HEIGHT, dayWidth * shownDays.length, HEADER_HEIGHT);
+    context.fillStyle = colors.text;
+    context.font = `600 14px ${FONT}`;
+    shownDays.forEach((day, column) => {
+        context.fillText(DAYS_OF_WEEK[day], gridLeft + column * dayWidth + 8, gridTop - HEADER_HEIGHT + 9);
+    });
+
+    // Hour lines and labels
+    context.strokeStyle = colors.grid;
+    context.lineWidth = 1;
+    context.font = `12px ${FONT}`;
+    for (let hour = firstHour; hour <= lastHour; hour++) {
+        const y = gridTop + (hour - firstHour) * HOUR_HEIGHT;
+        context.beginPath();
+        context.moveTo(gridLeft, y);
+        context.lineTo(gridLeft + dayWidth * shownDays.length, y);
+        context.stroke();
+        if (hour < lastHour) {
+            context.fillText(minutesToTime(hour * 60), PADDING, y + 4);
+        }
+    }
+    for (let column = 0; column <= shownDays.length; column++) {
+        const x = gridLeft + column * dayWidth;
+        context.beginPath();
+        context.moveTo(x, gridTop - HEADER_HEIGHT);
+        context.lineTo(x, gridTop + gridHeight);
+        context.stroke();
+    }
+
+    // Meetings
+    context.font = `12px ${FONT}`;
+    sections.forEach(section => {
+        const color = colors.courseColors[(colorIndices.get(getCourseKey(section)) ?? 0) % colors.courseColors.length];
+        getSectionIntervals(section).forEach(interval => {
+            const column = shownDays.indexOf(interval.day);
+            if (column === -1) return;
+            const x = gridLeft + column * dayWidth + 3;
+            const y = gridTop + (interval.start / 60 - firstHour) * HOUR_HEIGHT + 1;
+            const width = dayWidth - 6;
+            const boxHeight = (interval.end - interval.start) / 60 * HOUR_HEIGHT - 2;
+
+            context.globalAlpha = interval.isOnline ? 0.6 : 1;
+            context.fillStyle = color;
+            context.beginPath();
+            context.roundRect(x, y, width, boxHeight, 4);
+            context.fill();
+            context.globalAlpha = 1;
+            if (interval.isOnline) {
+                context.setLineDash([5, 3]);
+                context.strokeStyle = colors.eventText;
+                context.stroke();
+                context.setLineDash([]);
+            }
+
+            context.fillStyle = colors.eventText;
+            drawClippedLines(context, [
+                `${section.subject} ${section.courseCode}${section.component ? ` ${section.component}` : ''}`,
+                `${minutesToTime(interval.start)}-${minutesToTime(interval.end)}`,
+                `CRN ${section.crn} | ${interval.isOnline ? 'Online' : 'In-person'}`
+            ], x, y, width, boxHeight);
+        });
+    });
+
+    // Legend: one row per course, then the delivery mode key
+    context.font = `13px ${FONT}`;
+    legendLines.forEach(({ key, text }, row) => {
+        const y = legendTop + row * LEGEND_ROW_HEIGHT;
+        context.fillStyle = colors.courseColors[(colorIndices.get(key) ?? 0) % colors.courseColors.length];
+        context.fillRect(PADDING, y + 2, 14, 14);
+        context.fillStyle = colors.text;
+        context.fillText(text, PADDING + 22, y + 3, WIDTH - PADDING * 2 - 22);
+    });
+
+    const modeY = legendTop + legendLines.length * LEGEND_ROW_HEIGHT;
+    context.fillStyle = colors.text;
+    context.fillRect(PADDING, modeY + 2, 14, 14);
+    context.fillText('In-person', PADDING + 22, modeY + 3);
+    context.globalAlpha = 0.6;
+    context.fillRect(PADDING + 120, modeY + 2, 14, 14);
+    context.globalAlpha = 1;
+    context.setLineDash([3, 2]);
+    context.strokeStyle = colors.text;
+    context.strokeRect(PADDING + 120, modeY + 2, 14, 14);
+    context.setLineDash([]);
+    context.fillText('Online', PADDING + 142, modeY + 3);
+
+    return canvas;
+};
\ No newline at end of file
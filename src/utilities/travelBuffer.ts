@@ -0,0 +1,135 @@
+import type { CourseSection } from './csvParser';
+import type { ScheduleFilters, TravelTime } from '../types/filters';
+import { getSectionIntervals, type MeetingInterval } from './conflictMatrix';
+import { DAYS_OF_WEEK } from './timeUtils';
+
+// A meeting that starts too soon after the previous one to get there in time
+export interface TravelViolation {
+    from: CourseSection;
+    to: CourseSection;
+    day: number;              // 0 = Monday ... 6 = Sunday
+    toStart: number;          // Start of the late meeting, minutes since midnight
+    gapMinutes: number;
+    requiredMinutes: number;
+}
+
+export type TravelRules = Pick<ScheduleFilters, 'travelTimes' | 'defaultTravelMinutes' | 'onlineToCampusMinutes'>;
+
+let nextTravelTimeId = 1;
+
+export const createTravelTime = (from: string, to: string, minutes: number): TravelTime => ({
+    id: `travel-${Date.now().toString(36)}-${nextTravelTimeId++}`,
+    from,
+    to,
+    minutes
+});
+
+// Travel rules only apply while filters are enabled and at least one rule asks for a buffer
+export const hasTravelRules = (filters: ScheduleFilters): boolean => {
+    return filters.isEnabled && (
+        filters.defaultTravelMinutes > 0 ||
+        filters.onlineToCampusMinutes > 0 ||
+        filters.travelTimes.some(travelTime => travelTime.minutes > 0)
+    );
+};
+
+const findTravelTime = (travelTimes: TravelTime[], from: string, to: string): TravelTime | undefined => {
+    return travelTimes.find(travelTime =>
+        (travelTime.from === from && travelTime.to === to) ||
+        (travelTime.from === to && travelTime.to === from)
+    );
+};
+
+/**
+ * Minutes needed to get from one section's location to another's. Buildings are
+ * looked up before campuses; places without a travel time use the default buffer.
+ * Sections without location data, or in the same place, need no buffer.
+ */
+const getTravelMinutes = (from: CourseSection, to: CourseSection, rules: TravelRules): number => {
+    const sameCampus = !from.campus || !to.campus || from.campus === to.campus;
+    const sameBuilding = !from.building || !to.building || from.building === to.building;
+    if (sameCampus && sameBuilding) return 0;
+
+    const places: Array<[string | undefined, string | undefined]> = [
+        [from.building, to.building],
+        [from.campus, to.campus]
+    ];
+    for (const [fromPlace, toPlace] of places) {
+        if (!fromPlace || !toPlace || fromPlace === toPlace) continue;
+        const travelTime = findTravelTime(rules.travelTimes, fromPlace, toPlace);
+        if (travelTime) return travelTime.minutes;
+    }
+    return rules.defaultTravelMinutes;
+};
+
+// Buffer needed between a meeting and the next one; getting to an online meeting needs none
+const getRequiredBuffer = (
+    from: CourseSection,
+    fromInterval: MeetingInterval,
+    to: CourseSection,
+    toInterval: MeetingInterval,
+    rules: TravelRules
+): number => {
+    if (toInterval.isOnline) return 0;
+    if (fromInterval.isOnline) return rules.onlineToCampusMinutes;
+    return getTravelMinutes(from, to, rules);
+};
+
+// A meeting together with the section it belongs to
+interface SectionMeeting {
+    section: CourseSection;
+    interval: MeetingInterval;
+}
+
+/**
+ * Finds meetings that start too soon after the meeting right before them on
+ * the same day. Only neighbours are compared, since that is the trip actually made;
+ * an online meeting still counts as the one before, needing the online-to-campus buffer.
+ * @param sections - Sections making up a schedule
+ * @param rules - Travel times and buffers
+ * @returns Every pair of consecutive meetings without enough time between them
+ */
+export const findTravelViolations = (sections: CourseSection[], rules: TravelRules): TravelViolation[] => {
+    const meetingsByDay: SectionMeeting[][] = DAYS_OF_WEEK.map(() => []);
+    sections.forEach(section => {
+        getSectionIntervals(section).forEach(interval => {
+            meetingsByDay[interval.day].push({ section, interval });
+        });
+    });
+
+    const violations: TravelViolation[] = [];
+    meetingsByDay.forEach(dayMeetings => {
+        dayMeetings.sort((a, b) => a.interval.start - b.interval.start || a.interval.end - b.interval.end);
+        for (let i = 1; i < dayMeetings.length; i++) {
+            const from = dayMeetings[i - 1];
+            const to = dayMeetings[i];
+            if (from.section === to.section) continue;
+            const gapMinutes = to.interval.start - from.interval.end;
+            if (gapMinutes < 0) continue;
+            const requiredMinutes = getRequiredBuffer(from.section, from.interval, to.section, to.interval, rules);
+            if (gapMinutes < requiredMinutes) {
+                violations.push({
+                    from: from.section,
+                    to: to.section,
+                    day: to.interval.day,
+                    toStart: to.interval.start,
+                    gapMinutes,
+                    requiredMinutes
+                });
+            }
+        }
+    });
+    return violations;
+};
+
+/**
+ * Checks whether a set of sections could not be taken together without rushing.
+ * Whether a gap is long enough depends on the meeting right before it, so this
+ * only holds for the whole set, not for its parts checked pairwise.
+ * @param sections - Sections making up a schedule, or a course option
+ * @param rules - Travel times and buffers
+ * @returns boolean indicating if any meeting follows the one before it too closely
+ */
+export const violatesTravelBuffer = (sections: CourseSection[], rules: TravelRules): boolean => {
+    return findTravelViolations(sections, rules).length > 0;
+};
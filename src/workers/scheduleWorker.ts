@@ -0,0 +1,44 @@
+import { generateNonConflictingSchedules } from '../utilities/scheduleGenerator';
+import { diagnoseSchedules } from '../utilities/scheduleDiagnostics';
+import type { ScheduleWorkerRequest, ScheduleWorkerResponse } from './scheduleWorkerProtocol';
+
+// Typed view of the dedicated worker scope
+const workerScope = self as unknown as Worker;
+
+const respond = (response: ScheduleWorkerResponse) => {
+    workerScope.postMessage(response);
+};
+
+workerScope.onmessage = (event: MessageEvent<ScheduleWorkerRequest>) => {
+    const request = event.data;
+    if (request.type !== 'generate') return;
+
+    const { requestId } = request;
+    try {
+        const result = generateNonConflictingSchedules(
+            request.sections,
+            request.selectedCourseIds,
+            request.filters,
+            {
+                ...request.constraints,
+                onProgress: progress => respond({ type: 'progress', requestId, progress }),
+                onFirstBatch: batch => respond({ type: 'batch', requestId, result: batch })
+            }
+        );
+        const diagnostics = diagnoseSchedules(
+            request.sections,
+            request.selectedCourseIds,
+            request.filters,
+            request.constraints,
+            result,
+            progress => respond({ type: 'diagnosticsProgress', requestId, progress })
+        );
+        respond({ type: 'done', requestId, result: diagnostics ? { ...result, diagnostics } : result });
+    } catch (error) {
+        respond({
+            type: 'error',
+            requestId,
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
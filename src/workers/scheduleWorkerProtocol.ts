@@ -0,0 +1,58 @@
+import type { CourseSection } from '../utilities/csvParser';
+import type { ScheduleFilters } from '../types/filters';
+import type { DiagnosticsProgress } from '../utilities/scheduleDiagnostics';
+import type {
+    GenerationProgress,
+    ScheduleGeneratorConstraints,
+    ScheduleGeneratorResult
+} from '../utilities/scheduleGenerator';
+
+// Messages sent from the page to the schedule worker
+export interface GenerateRequest {
+    type: 'generate';
+    requestId: number;
+    sections: CourseSection[];
+    selectedCourseIds: Set<string>;
+    filters: ScheduleFilters;
+    constraints: ScheduleGeneratorConstraints;
+}
+
+export type ScheduleWorkerRequest = GenerateRequest;
+
+// Messages sent from the schedule worker back to the page
+export interface ProgressResponse {
+    type: 'progress';
+    requestId: number;
+    progress: GenerationProgress;
+}
+
+export interface DiagnosticsProgressResponse {
+    type: 'diagnosticsProgress';
+    requestId: number;
+    progress: DiagnosticsProgress;
+}
+
+export interface BatchResponse {
+    type: 'batch';
+    requestId: number;
+    result: ScheduleGeneratorResult;
+}
+
+export interface DoneResponse {
+    type: 'done';
+    requestId: number;
+    result: ScheduleGeneratorResult;
+}
+
+export interface ErrorResponse {
+    type: 'error';
+    requestId: number;
+    message: string;
+}
+
+export type ScheduleWorkerResponse =
+    | ProgressResponse
+    | DiagnosticsProgressResponse
+    | BatchResponse
+    | DoneResponse
+    | ErrorResponse;